@@ -0,0 +1,208 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Scissors, Merge, Trash2, Clock, ChevronLeft, ChevronRight, Anchor, AlertTriangle } from 'lucide-react';
+import { SubtitleSegment } from '../types';
+
+interface SubtitleEditRowProps {
+  segment: SubtitleSegment;
+  index: number;
+  isActive: boolean;
+  isSelected: boolean; // Part of the multi-line selection (shift+click)
+  hasNext: boolean;
+  confidenceIssues: string[]; // Reasons the ASR output looks suspicious
+  getPlayheadTime: () => number;
+  onSelect: (index: number, extend: boolean) => void;
+  onChangeText: (index: number, text: string) => void;
+  onSplit: (index: number, at: { charIndex: number } | { time: number }) => void;
+  onMergeNext: (index: number) => void;
+  onRetime: (index: number, times: { start?: number; end?: number }) => void;
+  onDelete: (index: number) => void;
+  onMarkAnchor: (index: number) => void;
+}
+
+type TimeField = 'start' | 'end';
+
+const NUDGE_STEP = 0.1;      // Seconds per nudge click
+const DRAG_SECONDS_PER_PX = 0.01;
+
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  const ms = Math.floor((seconds * 1000) % 1000);
+  return `${m}:${s.toString().padStart(2, '0')}.${ms.toString().padStart(3, '0')}`;
+};
+
+export const SubtitleEditRow: React.FC<SubtitleEditRowProps> = ({
+  segment,
+  index,
+  isActive,
+  isSelected,
+  hasNext,
+  confidenceIssues,
+  getPlayheadTime,
+  onSelect,
+  onChangeText,
+  onSplit,
+  onMergeNext,
+  onRetime,
+  onDelete,
+  onMarkAnchor,
+}) => {
+  const [draft, setDraft] = useState(segment.text);
+  const [dragPreview, setDragPreview] = useState<{ field: TimeField; value: number } | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // Follow external changes (split, merge, undo) unless the user is typing
+  useEffect(() => {
+    if (document.activeElement !== textareaRef.current) setDraft(segment.text);
+  }, [segment.text]);
+
+  const commitText = () => {
+    if (draft.trim() && draft !== segment.text) onChangeText(index, draft);
+    else setDraft(segment.text);
+  };
+
+  // Drag a time chip horizontally; only the final value is committed on mouse up
+  const startDrag = (field: TimeField) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const originX = e.clientX;
+    const originValue = segment[field];
+    let value = originValue;
+
+    const onMove = (ev: MouseEvent) => {
+      value = Math.max(0, originValue + (ev.clientX - originX) * DRAG_SECONDS_PER_PX);
+      setDragPreview({ field, value });
+    };
+    const onUp = () => {
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+      setDragPreview(null);
+      if (value !== originValue) onRetime(index, { [field]: value });
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+  };
+
+  const renderTimeControl = (field: TimeField) => {
+    const value = dragPreview?.field === field ? dragPreview.value : segment[field];
+    return (
+      <div className="flex items-center gap-0.5">
+        <button
+          onClick={() => onRetime(index, { [field]: segment[field] - NUDGE_STEP })}
+          title={`Nudge ${field} -${NUDGE_STEP}s`}
+          className="p-0.5 text-gray-500 hover:text-white transition-colors"
+        >
+          <ChevronLeft size={12} />
+        </button>
+        <span
+          onMouseDown={startDrag(field)}
+          title={`Drag to adjust ${field}`}
+          className={`px-1 rounded font-mono text-[10px] cursor-ew-resize select-none ${dragPreview?.field === field ? 'bg-blue-900/50 text-blue-300' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+        >
+          {formatTime(value)}
+        </span>
+        <button
+          onClick={() => onRetime(index, { [field]: segment[field] + NUDGE_STEP })}
+          title={`Nudge ${field} +${NUDGE_STEP}s`}
+          className="p-0.5 text-gray-500 hover:text-white transition-colors"
+        >
+          <ChevronRight size={12} />
+        </button>
+        <button
+          onClick={() => onRetime(index, { [field]: getPlayheadTime() })}
+          title={`Set ${field} to playhead`}
+          className="p-0.5 text-gray-500 hover:text-blue-400 transition-colors"
+        >
+          <Clock size={12} />
+        </button>
+      </div>
+    );
+  };
+
+  const playhead = getPlayheadTime();
+  const canSplitAtPlayhead = playhead > segment.start && playhead < segment.end;
+
+  return (
+    <div
+      onClick={(e) => onSelect(index, e.shiftKey)}
+      className={`p-3 border-b border-gray-800 border-l-4 transition-colors ${
+        isActive ? 'border-l-blue-500' : isSelected ? 'border-l-purple-500' : 'border-l-transparent'
+      } ${isSelected ? 'bg-purple-900/20' : isActive ? 'bg-blue-900/30' : 'hover:bg-gray-900'}`}
+    >
+      <div className="flex items-center justify-between mb-2" onClick={(e) => e.stopPropagation()}>
+        {renderTimeControl('start')}
+        {confidenceIssues.length > 0 ? (
+          <span title={confidenceIssues.join('\n')}>
+            <AlertTriangle size={12} className="text-amber-400" />
+          </span>
+        ) : (
+          <span className="text-gray-600 text-[10px]">→</span>
+        )}
+        {renderTimeControl('end')}
+      </div>
+
+      <textarea
+        ref={textareaRef}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commitText}
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          // Keep player shortcuts from firing while typing
+          e.stopPropagation();
+          if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            textareaRef.current?.blur();
+          } else if (e.key === 'Escape') {
+            setDraft(segment.text);
+            // Blur after the reset so commitText sees the original text
+            setTimeout(() => textareaRef.current?.blur(), 0);
+          }
+        }}
+        rows={2}
+        className="w-full bg-black border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 focus:border-blue-500 outline-none resize-none"
+      />
+
+      <div className="flex items-center gap-1 mt-1" onClick={(e) => e.stopPropagation()}>
+        <button
+          // The textarea blurs (committing any typing) before this fires; its caret position survives the blur
+          onClick={() => onSplit(index, { charIndex: textareaRef.current?.selectionStart ?? 0 })}
+          title="Split at cursor"
+          className="flex items-center gap-1 px-1.5 py-0.5 text-[10px] text-gray-400 hover:text-white bg-gray-800 rounded border border-gray-700 transition-colors"
+        >
+          <Scissors size={10} /> Cursor
+        </button>
+        <button
+          onClick={() => onSplit(index, { time: getPlayheadTime() })}
+          disabled={!canSplitAtPlayhead}
+          title="Split at playhead"
+          className="flex items-center gap-1 px-1.5 py-0.5 text-[10px] text-gray-400 hover:text-white bg-gray-800 rounded border border-gray-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+        >
+          <Scissors size={10} /> Playhead
+        </button>
+        <button
+          onClick={() => onMergeNext(index)}
+          disabled={!hasNext}
+          title="Merge with next line"
+          className="flex items-center gap-1 px-1.5 py-0.5 text-[10px] text-gray-400 hover:text-white bg-gray-800 rounded border border-gray-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+        >
+          <Merge size={10} /> Merge
+        </button>
+        <button
+          onClick={() => onMarkAnchor(index)}
+          title="This line is spoken now (timing anchor)"
+          className="ml-auto p-1 text-gray-500 hover:text-blue-400 transition-colors"
+        >
+          <Anchor size={12} />
+        </button>
+        <button
+          onClick={() => onDelete(index)}
+          title="Delete line"
+          className="p-1 text-gray-500 hover:text-red-400 transition-colors"
+        >
+          <Trash2 size={12} />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { Anchor, X } from 'lucide-react';
+import { LinearTimingCorrection, TimingAnchor, computeTimingCorrection } from '../utils/subtitleEditing';
+
+interface TimingToolPanelProps {
+  anchors: TimingAnchor[];
+  onClearAnchors: () => void;
+  onApply: (correction: LinearTimingCorrection) => void;
+}
+
+const OFFSET_PRESETS = [-1, -0.1, 0.1, 1];
+
+const formatOffset = (seconds: number) => `${seconds >= 0 ? '+' : ''}${seconds.toFixed(3)}s`;
+
+export const TimingToolPanel: React.FC<TimingToolPanelProps> = ({
+  anchors,
+  onClearAnchors,
+  onApply,
+}) => {
+  const [offset, setOffset] = useState(0);
+  const correction = computeTimingCorrection(anchors);
+
+  return (
+    <div className="mt-3 p-3 bg-gray-900 border border-gray-800 rounded-lg space-y-3">
+      {/* Constant offset */}
+      <div>
+        <div className="text-[10px] font-bold text-gray-500 uppercase mb-1">Shift All Lines</div>
+        <div className="flex items-center gap-1">
+          {OFFSET_PRESETS.map(step => (
+            <button
+              key={step}
+              onClick={() => setOffset(o => Math.round((o + step) * 1000) / 1000)}
+              className="px-1.5 py-0.5 text-[10px] font-mono text-gray-400 hover:text-white bg-gray-800 rounded border border-gray-700 transition-colors"
+            >
+              {step > 0 ? '+' : ''}{step}
+            </button>
+          ))}
+          <input
+            type="number"
+            step="0.1"
+            value={offset}
+            onChange={(e) => setOffset(parseFloat(e.target.value) || 0)}
+            className="w-16 bg-black border border-gray-700 rounded px-1.5 py-0.5 text-[10px] font-mono text-gray-200 focus:border-blue-500 outline-none"
+          />
+          <button
+            onClick={() => { onApply({ scale: 1, offset }); setOffset(0); }}
+            disabled={offset === 0}
+            className="ml-auto px-2 py-0.5 text-[10px] font-bold text-white bg-blue-600 hover:bg-blue-500 disabled:bg-gray-800 disabled:text-gray-500 rounded transition-colors"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+
+      {/* Anchor sync */}
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <span className="text-[10px] font-bold text-gray-500 uppercase">Sync To Speech</span>
+          {anchors.length > 0 && (
+            <button onClick={onClearAnchors} title="Clear anchors" className="text-gray-500 hover:text-white transition-colors">
+              <X size={12} />
+            </button>
+          )}
+        </div>
+        {anchors.length === 0 ? (
+          <p className="text-[10px] text-gray-500">
+            During playback, press <Anchor size={10} className="inline" /> on a line the moment it is spoken. One anchor shifts everything; a second anchor far from the first also fixes drift.
+          </p>
+        ) : (
+          <div className="space-y-1">
+            {anchors.map((anchor, i) => (
+              <div key={i} className="flex items-center gap-2 text-[10px]">
+                <Anchor size={10} className="text-blue-400 flex-shrink-0" />
+                <span className="truncate text-gray-400 flex-1">{anchor.text || `Line at ${anchor.original.toFixed(2)}s`}</span>
+                <span className="font-mono text-gray-500">{formatOffset(anchor.target - anchor.original)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+        {anchors.length > 0 && (
+          <div className="flex items-center justify-between mt-2">
+            <span className="text-[10px] font-mono text-gray-500">
+              {correction
+                ? `${correction.scale !== 1 ? `×${correction.scale.toFixed(5)} ` : ''}${formatOffset(correction.offset)}`
+                : 'Anchors too close together'}
+            </span>
+            <button
+              onClick={() => correction && onApply(correction)}
+              disabled={!correction}
+              className="px-2 py-0.5 text-[10px] font-bold text-white bg-blue-600 hover:bg-blue-500 disabled:bg-gray-800 disabled:text-gray-500 rounded transition-colors"
+            >
+              Apply
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
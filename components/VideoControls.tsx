@@ -4,7 +4,7 @@ import {
   SkipBack, SkipForward, FastForward,
   Volume2, VolumeX
 } from 'lucide-react';
-import { PlaybackMode } from '../types';
+import { ChunkStatus, PlaybackMode } from '../types';
 
 interface VideoControlsProps {
   isPlaying: boolean;
@@ -23,6 +23,7 @@ interface VideoControlsProps {
   onVolumeChange: (val: number) => void;
   isMuted: boolean;
   onToggleMute: () => void;
+  chunkStatus?: ChunkStatus[]; // Chunks of the last transcription run, to mark gaps on the timeline
 }
 
 const formatTime = (seconds: number) => {
@@ -48,6 +49,7 @@ export const VideoControls: React.FC<VideoControlsProps> = ({
   onVolumeChange,
   isMuted,
   onToggleMute,
+  chunkStatus,
 }) => {
   const rates = [0.3, 0.4, 0.5, 0.6, 0.75, 1.0, 1.25, 1.5, 2.0];
 
@@ -69,6 +71,23 @@ export const VideoControls: React.FC<VideoControlsProps> = ({
         <span className="min-w-[40px]">{formatTime(duration)}</span>
       </div>
 
+      {/* Transcript Gaps (failed chunks in red, chunks still running in grey, stopped ones outlined) */}
+      {duration > 0 && chunkStatus && chunkStatus.some(c => c.state !== 'done') && (
+        <div className="relative h-1 -mt-2 mx-[52px]">
+          {chunkStatus.filter(c => c.state !== 'done').map(c => (
+            <div
+              key={c.index}
+              onClick={() => onSeek(c.start)}
+              title={c.state === 'failed' ? `No transcript ${formatTime(c.start)}-${formatTime(c.end)}: ${c.error || 'failed'}`
+                : c.state === 'skipped' ? `Not transcribed ${formatTime(c.start)}-${formatTime(c.end)} (stopped)`
+                : 'Transcribing...'}
+              className={`absolute top-0 h-full rounded-sm cursor-pointer ${c.state === 'failed' ? 'bg-red-500' : c.state === 'skipped' ? 'border border-gray-500' : 'bg-gray-600'}`}
+              style={{ left: `${(c.start / duration) * 100}%`, width: `${Math.max(0.3, ((c.end - c.start) / duration) * 100)}%` }}
+            />
+          ))}
+        </div>
+      )}
+
       <div className="flex flex-col md:flex-row items-center justify-between gap-4">
         {/* Playback Transport */}
         <div className="flex items-center space-x-4">
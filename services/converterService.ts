@@ -1,4 +1,6 @@
 import { fetchFile } from '@ffmpeg/util';
+import { SubtitleSegment, SubtitleStreamInfo } from '../types';
+import { parseSRT } from '../utils/subtitleFormats';
 
 // We manage FFmpeg instance globally to avoid reloading
 let ffmpeg: any = null;
@@ -178,4 +180,94 @@ export async function extractAudioAsWav(videoFile: File): Promise<Float32Array>
     } catch (e) {
         throw e;
     }
-}
\ No newline at end of file
+}
+
+// Subtitle codecs ffmpeg can transcode to SubRip. Bitmap codecs (PGS, VobSub, DVB) need OCR.
+const TEXT_SUBTITLE_CODECS = ['subrip', 'srt', 'mov_text', 'ass', 'ssa', 'webvtt', 'text', 'tx3g'];
+
+/**
+ * Parses the stream listing ffmpeg prints for "-i <file>" and returns its subtitle streams.
+ * Example line: "  Stream #0:2(eng): Subtitle: subrip (default)"
+ */
+function parseSubtitleStreams(logLines: string[]): SubtitleStreamInfo[] {
+    const streams: SubtitleStreamInfo[] = [];
+    let current: SubtitleStreamInfo | null = null;
+
+    for (const line of logLines) {
+        const streamMatch = line.match(/Stream #(\d+:\d+)(?:\[[^\]]*\])?(?:\((\w+)\))?:\s*(\w+):\s*([\w-]+)(.*)/);
+        if (streamMatch) {
+            current = null;
+            const [, streamId, language, kind, codec, rest] = streamMatch;
+            if (kind !== 'Subtitle') continue;
+
+            current = {
+                index: streams.length,
+                streamId,
+                codec,
+                language: language && language !== 'und' ? language : undefined,
+                isDefault: rest.includes('(default)'),
+                isTextBased: TEXT_SUBTITLE_CODECS.includes(codec)
+            };
+            streams.push(current);
+            continue;
+        }
+
+        // Metadata block following a stream line
+        const titleMatch = line.match(/^\s+title\s*:\s*(.+)$/);
+        if (current && titleMatch) {
+            current.title = titleMatch[1].trim();
+        }
+    }
+    return streams;
+}
+
+/**
+ * Lists the subtitle streams embedded in a media container, with language and codec.
+ */
+export async function listSubtitleStreams(videoFile: File): Promise<SubtitleStreamInfo[]> {
+    const instance = await loadFFmpeg();
+    const inputName = 'probe.video';
+    const logLines: string[] = [];
+    const onLog = ({ message }: { message: string }) => logLines.push(message);
+
+    try {
+        await instance.writeFile(inputName, await fetchFile(videoFile));
+        instance.on('log', onLog);
+        // No output file: ffmpeg prints the stream listing and exits with an error code, which is expected
+        await instance.exec(['-hide_banner', '-i', inputName]);
+        return parseSubtitleStreams(logLines);
+    } finally {
+        instance.off('log', onLog);
+        await instance.deleteFile(inputName).catch(() => {});
+    }
+}
+
+/**
+ * Converts one embedded subtitle stream (subrip, mov_text, ass, webvtt) to SubtitleSegment[].
+ * The stream is transcoded to SubRip inside ffmpeg so a single parser handles every codec.
+ */
+export async function extractSubtitleStream(videoFile: File, stream: SubtitleStreamInfo): Promise<SubtitleSegment[]> {
+    if (!stream.isTextBased) {
+        throw new Error(`Subtitle codec "${stream.codec}" is image-based and cannot be converted to text.`);
+    }
+
+    const instance = await loadFFmpeg();
+    const inputName = 'input.video';
+    const outputName = 'output.srt';
+
+    try {
+        await instance.writeFile(inputName, await fetchFile(videoFile));
+
+        const ret = await instance.exec(['-i', inputName, '-map', `0:s:${stream.index}`, '-c:s', 'srt', outputName]);
+        if (ret !== 0) {
+            throw new Error(`FFmpeg exited with code ${ret}`);
+        }
+
+        const data = await instance.readFile(outputName, 'utf8');
+        const content = typeof data === 'string' ? data : new TextDecoder().decode(data);
+        return parseSRT(content).map((s, i) => ({ ...s, id: i }));
+    } finally {
+        await instance.deleteFile(inputName).catch(() => {});
+        await instance.deleteFile(outputName).catch(() => {});
+    }
+}
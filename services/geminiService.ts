@@ -1,8 +1,21 @@
-import { SubtitleSegment, WordDefinition, LocalLLMConfig, LocalASRConfig, SegmentationMethod, VADSettings } from "../types";
+import { SubtitleSegment, SubtitleWord, FilteredSegment, ChunkStatus, WordDefinition, LocalLLMConfig, LocalLLMProtocol, GeminiConfig, RateLimitBudget, SegmentationMethod, VADSettings, TranscriptionEngine } from "../types";
 import { GoogleGenAI, Type } from "@google/genai";
 import { extractAudioAsWav } from "./converterService";
 import { lookupWord, speakText } from "../utils/dictionary";
 import JSZip from "jszip";
+import { detectTimeScale, parseTimestamp } from "../utils/subtitleFormats";
+import { loadChunkCheckpoints, getCheckpointedChunk, saveChunkCheckpoint } from "./transcriptCache";
+import { AUTO_DETECT_LANGUAGE, getLanguageName, normalizeLanguageCode } from "../utils/languages";
+import { applySegmentFilters } from "../utils/segmentFilters";
+import { applyGlossaryCorrections, buildWhisperPrompt } from "../utils/glossary";
+import { parseLLMJSON, requestValidatedJSON, validateWordDefinition } from "../utils/llmJson";
+import { stitchChunks } from "../utils/chunkStitching";
+import { DEFAULT_DEFINITION_PROMPT, DEFAULT_TRANSCRIPTION_PROMPT, renderPromptTemplate } from "../utils/promptTemplates";
+import { createRateLimiter, isRateLimitError, RateLimiter } from "./rateLimiter";
+import { createTranscriptionProvider, registerTranscriptionProvider, TranscriptionOptions, TranscriptionProviderFactory } from "./transcriptionProviders";
+import { encodeWAV, blobToBase64 } from "../utils/wav";
+// Providers in their own modules register themselves on import
+import "./localWhisperProvider";
 
 // --- OFFLINE WORKER CODE ---
 const WORKER_CODE = `
@@ -25,6 +38,58 @@ class PipelineFactory {
     }
 }
 
+// Predicts the language token Whisper would emit first for this audio (e.g. "<|es|>")
+async function detectLanguage(transcriber, audio, sampleRate) {
+    try {
+        const sample = audio.slice(0, 30 * sampleRate);
+        const inputs = await transcriber.processor(sample);
+        const output = await transcriber.model.generate(inputs.input_features, { max_new_tokens: 1 });
+        const tokens = Array.from(output[0] || []);
+        const decoded = transcriber.tokenizer.decode([Number(tokens[tokens.length - 1])]);
+        const match = decoded.match(/<\|([a-z]{2,3})\|>/);
+        return match ? match[1] : null;
+    } catch (error) {
+        return null;
+    }
+}
+
+// Glossary prompt as Whisper's previous-context tokens (<|startofprev|> + text)
+function getPromptIds(transcriber, prompt) {
+    if (!prompt) return null;
+    try {
+        const startOfPrev = transcriber.tokenizer.model.tokens_to_ids.get('<|startofprev|>');
+        if (startOfPrev === undefined) return null;
+        const ids = transcriber.tokenizer.encode(' ' + prompt.trim(), null, { add_special_tokens: false });
+        return [startOfPrev, ...ids];
+    } catch (error) {
+        return null;
+    }
+}
+
+// Groups word-level chunks into sentence-like segments, keeping each word's timing
+function groupWords(words) {
+    const segments = [];
+    let current = [];
+    const flush = () => {
+        if (current.length === 0) return;
+        segments.push({
+            text: current.map(w => w.text).join(''),
+            timestamp: [current[0].timestamp[0], current[current.length - 1].timestamp[1]],
+            words: current.map(w => ({ text: w.text.trim(), timestamp: w.timestamp }))
+        });
+        current = [];
+    };
+    for (const w of words) {
+        const prev = current[current.length - 1];
+        // Break on long pauses or overly long segments
+        if (prev && (w.timestamp[0] - prev.timestamp[1] > 1.0 || w.timestamp[1] - current[0].timestamp[0] > 10)) flush();
+        current.push(w);
+        if (/[.?!]$/.test(w.text.trim())) flush();
+    }
+    flush();
+    return segments;
+}
+
 self.onmessage = async (event) => {
     const message = event.data;
 
@@ -42,7 +107,7 @@ self.onmessage = async (event) => {
     }
 
     if (message.type === 'generate') {
-        const { audio, model, jobId, timeOffset: globalTimeOffset } = message.data;
+        const { audio, model, jobId, timeOffset: globalTimeOffset, language: requestedLanguage, task, wordTimestamps, prompt } = message.data;
         // Whisper expects 16kHz audio
         const SAMPLE_RATE = 16000;
         // Process in 30-second chunks (standard Whisper window)
@@ -55,6 +120,20 @@ self.onmessage = async (event) => {
                  self.postMessage({ type: 'progress', data });
             });
             
+            // English-only checkpoints have no language or task choice; otherwise detect once when not specified
+            const isEnglishOnly = model.endsWith('.en');
+            const effectiveTask = isEnglishOnly ? undefined : (task || 'transcribe');
+            let language = requestedLanguage || null;
+            if (isEnglishOnly) {
+                language = 'en';
+            } else if (!language) {
+                language = await detectLanguage(transcriber, audio, SAMPLE_RATE);
+            }
+
+            // Word timings need a checkpoint exported with cross-attentions; fall back to segments otherwise
+            let useWords = !!wordTimestamps;
+            let promptIds = getPromptIds(transcriber, prompt);
+
             const totalSamples = audio.length;
             let offsetSamples = 0;
             
@@ -68,10 +147,29 @@ self.onmessage = async (event) => {
                 const totalOffset = globalOffset + currentChunkOffset;
                 
                 // Run inference on this chunk
-                const output = await transcriber(chunk, {
-                    language: 'english',
-                    return_timestamps: true
-                });
+                const options = { language: language || undefined, task: effectiveTask };
+                if (promptIds) options.prompt_ids = promptIds;
+                let output = null;
+                if (useWords) {
+                    try {
+                        output = await transcriber(chunk, { ...options, return_timestamps: 'word' });
+                    } catch (error) {
+                        console.warn('[Whisper Worker] Word timestamps unsupported by this model, using segments.', error);
+                        useWords = false;
+                    }
+                }
+                if (!output && promptIds) {
+                    try {
+                        output = await transcriber(chunk, { ...options, return_timestamps: true });
+                    } catch (error) {
+                        console.warn('[Whisper Worker] Initial prompt rejected by this model, continuing without it.', error);
+                        promptIds = null;
+                        delete options.prompt_ids;
+                    }
+                }
+                if (!output) {
+                    output = await transcriber(chunk, { ...options, return_timestamps: true });
+                }
                 
                 const adjustedChunks = (output.chunks || []).map((c, idx, arr) => {
                     // Fix for potential null start timestamp (often happens at the very end of stream)
@@ -99,12 +197,12 @@ self.onmessage = async (event) => {
                 });
 
                 // Emit partial results immediately (Chunk complete)
-                self.postMessage({ type: 'partial', data: adjustedChunks, jobId });
+                self.postMessage({ type: 'partial', data: useWords ? groupWords(adjustedChunks) : adjustedChunks, jobId });
 
                 offsetSamples += CHUNK_SIZE;
             }
 
-            self.postMessage({ type: 'complete', jobId });
+            self.postMessage({ type: 'complete', jobId, language });
 
         } catch (error) {
             self.postMessage({ type: 'error', data: error.message, jobId });
@@ -115,9 +213,7 @@ self.onmessage = async (event) => {
 
 // --- OFFLINE WORKER MANAGER ---
 let worker: Worker | null = null;
-let onSubtitleProgressCallback: ((segments: SubtitleSegment[]) => void) | null = null;
 let onLoadProgressCallback: ((data: any) => void) | null = null;
-let accumulatedSegments: SubtitleSegment[] = [];
 let activeJobId = 0; // Track the current generation job
 
 export const cancelSubtitleGeneration = () => {
@@ -130,6 +226,8 @@ const initWorker = () => {
     const workerUrl = URL.createObjectURL(blob);
     worker = new Worker(workerUrl, { type: 'module' });
     
+    // Model loading events. Generation results ('partial' / 'complete') are consumed per chunk
+    // by the browser transcription provider.
     worker.onmessage = (event) => {
       const { type, data, jobId } = event.data;
       
@@ -145,80 +243,6 @@ const initWorker = () => {
       else if (type === 'ready') {
         if (onLoadProgressCallback) onLoadProgressCallback({ status: 'ready' });
       } 
-      else if (type === 'partial') {
-        // --- LOGGING RETURN DATA (WORKER) ---
-        if (data && data.length > 0) {
-            console.log(`%c[Whisper Worker Return] Partial Results:`, "color: #10b981; font-weight: bold;", data);
-        }
-
-        // Append new chunks to our local accumulator with filtering
-        const rawSegments = (data || []).map((chunk: any) => ({
-           id: 0, 
-           start: chunk.timestamp[0],
-           end: chunk.timestamp[1],
-           text: chunk.text.trim()
-        }));
-
-        // 1. Filter out known hallucinations and bad segments
-        const validSegments = rawSegments.filter((s: SubtitleSegment) => {
-             if (!s.text) return false;
-             
-             const t = s.text.toLowerCase().trim();
-             // Whisper hallucinations
-             if (t === 'you' || t === 'thank you' || t === 'thanks for watching' || t.includes('subtitle by') || t === '.') return false;
-             
-             // Tiny duration with long text is suspicious
-             if ((s.end - s.start) < 0.1 && t.length > 5) return false;
-             
-             return true;
-        });
-
-        // 2. Deduplicate and Merge
-        for (const seg of validSegments) {
-             const last = accumulatedSegments[accumulatedSegments.length - 1];
-             if (last) {
-                  // Exact text match -> skip
-                  if (seg.text === last.text) continue;
-
-                  // Normalize for fuzzy match
-                  const cleanSeg = seg.text.toLowerCase().replace(/[.,?!]/g, '').trim();
-                  const cleanLast = last.text.toLowerCase().replace(/[.,?!]/g, '').trim();
-
-                  // Partial overlap at the end (e.g., "Hello world" -> "world")
-                  if (cleanSeg.length > 2 && cleanLast.endsWith(cleanSeg)) continue;
-                  
-                  // Timestamp overlap adjustment
-                  if (seg.start < last.end) {
-                      // If overlap is small, assume it's continuous
-                      if (last.end - seg.start < 0.5) {
-                          // No-op here, we will fix overlaps in the final sort pass
-                      } 
-                      // If overlap is large or contained, check content length
-                      else if (seg.end <= last.end) {
-                          // Contained segment with different text? Skip to be safe
-                          continue;
-                      }
-                  }
-             }
-
-             if (seg.end > seg.start) {
-                 accumulatedSegments.push(seg);
-             }
-        }
-        
-        // Re-assign IDs and sort
-        accumulatedSegments.sort((a, b) => a.start - b.start);
-        accumulatedSegments = accumulatedSegments.map((s, i) => ({ ...s, id: i }));
-
-        if (onSubtitleProgressCallback) onSubtitleProgressCallback(accumulatedSegments);
-      }
-      else if (type === 'complete') {
-        console.log(`%c[Whisper Worker Return] Chunk Complete. Total Segments so far: ${accumulatedSegments.length}`, "color: #10b981; font-weight: bold;");
-        // Ensure final sort and cleanup
-        accumulatedSegments.sort((a, b) => a.start - b.start);
-        accumulatedSegments = accumulatedSegments.map((s, i) => ({ ...s, id: i }));
-        if (onSubtitleProgressCallback) onSubtitleProgressCallback(accumulatedSegments);
-      } 
       else if (type === 'error') {
         console.error("[Whisper Worker] Error:", data);
         if (onLoadProgressCallback) onLoadProgressCallback({ status: 'error', error: data });
@@ -283,47 +307,6 @@ export const getAudioData = async (videoFile: File, forOffline: boolean): Promis
     }
 };
 
-function encodeWAV(samples: Float32Array, sampleRate: number) {
-    const buffer = new ArrayBuffer(44 + samples.length * 2);
-    const view = new DataView(buffer);
-    const writeString = (view: DataView, offset: number, string: string) => {
-        for (let i = 0; i < string.length; i++) view.setUint8(offset + i, string.charCodeAt(i));
-    };
-
-    writeString(view, 0, 'RIFF');
-    view.setUint32(4, 36 + samples.length * 2, true);
-    writeString(view, 8, 'WAVE');
-    writeString(view, 12, 'fmt ');
-    view.setUint32(16, 16, true);
-    view.setUint16(20, 1, true);
-    view.setUint16(22, 1, true);
-    view.setUint32(24, sampleRate, true);
-    view.setUint32(28, sampleRate * 2, true);
-    view.setUint16(32, 2, true);
-    view.setUint16(34, 16, true);
-    writeString(view, 36, 'data');
-    view.setUint32(40, samples.length * 2, true);
-
-    let offset = 44;
-    for (let i = 0; i < samples.length; i++, offset += 2) {
-        const s = Math.max(-1, Math.min(1, samples[i]));
-        view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
-    }
-    return buffer;
-}
-
-function blobToBase64(blob: Blob): Promise<string> {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-             const base64String = (reader.result as string).split(',')[1];
-             resolve(base64String);
-        };
-        reader.onerror = reject;
-        reader.readAsDataURL(blob);
-    });
-}
-
 // Helper: Save Zip
 async function saveDebugZip(zip: JSZip) {
     try {
@@ -349,99 +332,13 @@ async function saveDebugZip(zip: JSZip) {
     }
 }
 
-// Helper to safely parse potentially weird timestamp formats (for local/legacy parsing)
-function parseTimestamp(val: any): number {
-    if (typeof val === 'number') return val;
-    if (typeof val === 'string') {
-        const v = val.trim();
-        if (!v) return 0;
-
-        // Normalize comma decimals (VTT/SRT style: 00:00:10,500)
-        const normalized = v.replace(',', '.');
-
-        // Check for colon format (HH:MM:SS or MM:SS)
-        if (normalized.includes(':')) {
-            const parts = normalized.split(':');
-            let seconds = 0;
-            if (parts.length === 3) {
-                // HH:MM:SS
-                seconds = parseFloat(parts[0]) * 3600 + parseFloat(parts[1]) * 60 + parseFloat(parts[2]);
-            } else if (parts.length === 2) {
-                // MM:SS
-                seconds = parseFloat(parts[0]) * 60 + parseFloat(parts[1]);
-            } else {
-                 seconds = parseFloat(parts[parts.length - 1]);
-            }
-            return isNaN(seconds) ? 0 : seconds;
-        }
-
-        // Standard float string
-        const num = parseFloat(normalized);
-        return isNaN(num) ? 0 : num;
-    }
-    return 0;
-}
-
-// Deterministic, calculation-based method to determine timestamp units.
-function detectTimeScale(segments: any[], chunkDuration: number): number {
-    const parsed = segments.map(s => {
-        const start = parseTimestamp(s.start);
-        const end = parseTimestamp(s.end);
-        return { start, end, dur: end - start };
-    }).filter(s => s.end > s.start && s.dur > 0);
-
-    if (parsed.length === 0) return 1.0;
-    const avgDur = parsed.reduce((sum, s) => sum + s.dur, 0) / parsed.length;
-    const maxEnd = Math.max(...parsed.map(s => s.end));
-    const candidates = [1.0, 0.01, 0.001];
-
-    const validCandidates = candidates.filter(scale => {
-        const scaledAvg = avgDur * scale;
-        const scaledMax = maxEnd * scale;
-        // Relaxed constraints to catch edge cases
-        const isDurationReasonable = scaledAvg >= 0.1 && scaledAvg <= 60.0;
-        const fitsInChunk = scaledMax <= (chunkDuration * 1.5);
-        return isDurationReasonable && fitsInChunk;
-    });
-
-    if (validCandidates.length === 1) return validCandidates[0];
-    
-    // If multiple candidates, we sort by which one results in an average duration closest to 3.0s.
-    // KEY FIX: Use logarithmic difference instead of linear difference.
-    // This prevents long sentences (e.g. 6s) from being rejected in favor of tiny ones (0.6s)
-    // just because 0.6 is linearly closer to 3.0 than 6.0 is.
-    // In log scale: 3.0/0.6 = 5x diff. 6.0/3.0 = 2x diff. So 6.0 wins (correctly).
-    if (validCandidates.length > 1) {
-        return validCandidates.sort((a, b) => {
-            const valA = avgDur * a;
-            const valB = avgDur * b;
-            
-            // Prevent log(0)
-            const logA = Math.log(Math.max(0.0001, valA));
-            const logB = Math.log(Math.max(0.0001, valB));
-            const target = Math.log(3.0);
-            
-            const distA = Math.abs(logA - target);
-            const distB = Math.abs(logB - target);
-            
-            return distA - distB;
-        })[0];
-    }
-
-    // Fallback: Fits best in chunk duration
-    return candidates.sort((a, b) => {
-         const distA = Math.abs((maxEnd * a) - chunkDuration);
-         const distB = Math.abs((maxEnd * b) - chunkDuration);
-         return distA - distB;
-    })[0];
-}
-
 // --- CHUNK GENERATION UTILS (FIXED vs VAD) ---
 
 interface ChunkDefinition {
     index: number;
     start: number;
     end: number;
+    audioStart?: number; // Samples; before start when the chunk overlaps the previous one
 }
 
 // 1. RMS Calculation
@@ -697,17 +594,44 @@ function* getFixedChunks(audioData: Float32Array, sampleRate: number, limitSec?:
     }
 }
 
-const getChunkDefinitions = (audioData: Float32Array, sampleRate: number, method: SegmentationMethod, vadSettings: VADSettings, limitSec?: number): Generator<ChunkDefinition> => {
-    if (method === 'vad') {
-        return getVADChunks(audioData, sampleRate, vadSettings.batchSize, vadSettings.minSilence, vadSettings.silenceThreshold, vadSettings.filteringEnabled, limitSec);
+// Extends every chunk but the first backwards into its predecessor, so words cut at a
+// boundary are heard whole by one side. Never reaches past the previous chunk's start.
+function* withOverlap(chunks: Generator<ChunkDefinition>, overlapSamples: number): Generator<ChunkDefinition> {
+    let previous: ChunkDefinition | null = null;
+    for (const chunk of chunks) {
+        yield previous && overlapSamples > 0
+            ? { ...chunk, audioStart: Math.max(previous.start, chunk.start - overlapSamples) }
+            : chunk;
+        previous = chunk;
     }
-    return getFixedChunks(audioData, sampleRate, limitSec);
+}
+
+const getChunkDefinitions = (audioData: Float32Array, sampleRate: number, method: SegmentationMethod, vadSettings: VADSettings, limitSec?: number, overlapSec: number = 0): Generator<ChunkDefinition> => {
+    const chunks = method === 'vad'
+        ? getVADChunks(audioData, sampleRate, vadSettings.batchSize, vadSettings.minSilence, vadSettings.silenceThreshold, vadSettings.filteringEnabled, limitSec)
+        : getFixedChunks(audioData, sampleRate, limitSec);
+    return withOverlap(chunks, Math.floor(overlapSec * sampleRate));
 };
 
 
+// --- SEGMENT MERGING (shared by all providers) ---
+
+// Sorts, drops empty timings and numbers the segments. Chunk seams are stitched beforehand by
+// word alignment (see stitchChunks), so lines repeating earlier text are real repeats and kept.
+const mergeSegments = (segments: SubtitleSegment[]): SubtitleSegment[] => {
+    return [...segments]
+        .sort((a, b) => a.start - b.start)
+        .filter(s => s.end > s.start)
+        .map((s, i) => ({ ...s, id: i }));
+};
+
 // --- ONLINE MODE IMPLEMENTATION ---
 let aiInstance: GoogleGenAI | null = null;
 
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+// Offered in Settings; any other model id can be typed in
+export const GEMINI_MODELS = ['gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-pro', 'gemini-2.0-flash'];
+
 const getAI = (apiKey?: string) => {
     if (apiKey) {
         return new GoogleGenAI({ apiKey });
@@ -722,207 +646,176 @@ const getAI = (apiKey?: string) => {
     return aiInstance || new GoogleGenAI({ apiKey: '' });
 };
 
-const generateSubtitlesOnline = async (
-    file: File, 
-    apiKey: string | undefined, 
-    onProgress: (segments: SubtitleSegment[]) => void,
-    segmentationMethod: SegmentationMethod,
-    vadSettings: VADSettings,
-    testMode: boolean,
-    cachedAudioData?: Float32Array,
-    onStatus?: (status: string) => void,
-    jobId?: number
-): Promise<SubtitleSegment[]> => {
-    if (!apiKey && (!process.env.API_KEY || process.env.API_KEY === '')) {
-         throw new Error("API Key is missing. Please enter your Gemini API Key in Settings.");
-    }
-
-    let audioData: Float32Array;
-    if (cachedAudioData) {
-        audioData = cachedAudioData;
-    } else {
-        if (onStatus) onStatus("Decoding Audio (Full File)...");
-        const data = await getAudioData(file, true);
-        if (typeof data === 'string') {
-             // Should not happen with getAudioData(..., true) but for type safety:
-             throw new Error("Received string data for VAD processing.");
-        }
-        audioData = data;
-    }
+// --- GEMINI TRANSCRIPTION PROVIDER ---
 
-    if (onStatus) onStatus("Analyzing Audio Structure...");
+// Upper bound for parallel chunk requests; the rate limiter decides how many actually run
+const MAX_GEMINI_CONCURRENCY = 6;
+// Gemini bills audio at 32 tokens per second, plus the prompt
+const AUDIO_TOKENS_PER_SECOND = 32;
+const PROMPT_TOKENS = 400;
 
-    const SAMPLE_RATE = 16000;
-    
-    let chunksToProcess: ChunkDefinition[];
+// One limiter per API key, shared by every job using that key
+const geminiLimiters = new Map<string, RateLimiter>();
 
-    if (testMode) {
-        // "Pre-segmentation" last chunk: Raw batch from end of file
-        const batchSamples = vadSettings.batchSize * SAMPLE_RATE;
-        const start = Math.max(0, audioData.length - batchSamples);
-        chunksToProcess = [{
-            index: 0,
-            start: start,
-            end: audioData.length
-        }];
-         if (onStatus) onStatus(`Test Mode: Processing last raw batch (${(start/SAMPLE_RATE).toFixed(1)}s - ${(audioData.length/SAMPLE_RATE).toFixed(1)}s)...`);
-    } else {
-        const chunkGenerator = getChunkDefinitions(audioData, SAMPLE_RATE, segmentationMethod, vadSettings, undefined);
-        chunksToProcess = Array.from(chunkGenerator);
+const getGeminiLimiter = (apiKey: string, budget: RateLimitBudget): RateLimiter => {
+    let limiter = geminiLimiters.get(apiKey);
+    if (!limiter) {
+        limiter = createRateLimiter(MAX_GEMINI_CONCURRENCY);
+        geminiLimiters.set(apiKey, limiter);
     }
+    limiter.setBudget(budget);
+    return limiter;
+};
 
-    const resultsMap: Record<number, SubtitleSegment[]> = {};
-    let maxIndexFound = -1;
-    
-    // Test Mode: Initialize ZIP
-    const zip = testMode ? new JSZip() : null;
-    
-    const updateProgress = () => {
-        let allSegments: SubtitleSegment[] = [];
-        // Since chunks come in order mostly, but we process in parallel, 
-        // we can iterate up to the max index we have processed so far.
-        // If in test mode, we just check the specific indices we processed.
-        const indicesToCheck = testMode ? chunksToProcess.map(c => c.index) : Array.from({length: maxIndexFound + 1}, (_, i) => i);
-        
-        for (const i of indicesToCheck) {
-            if (resultsMap[i]) {
-                allSegments = allSegments.concat(resultsMap[i]);
-            }
-        }
-        if (allSegments.length > 0) {
-            allSegments.sort((a, b) => a.start - b.start);
-            onProgress(allSegments.map((s, i) => ({ ...s, id: i })));
-        }
-    };
-
-    const processChunk = async (chunkDef: ChunkDefinition) => {
-        const chunkSamples = audioData.slice(chunkDef.start, chunkDef.end);
-        const wavBuffer = encodeWAV(chunkSamples, SAMPLE_RATE);
-
-        // --- DEBUG: SAVE CHUNK TO ZIP ---
-        if (testMode && zip) {
-             const startTime = (chunkDef.start / SAMPLE_RATE).toFixed(2);
-             const endTime = (chunkDef.end / SAMPLE_RATE).toFixed(2);
-             const fileName = `chunk_${chunkDef.index.toString().padStart(3, '0')}_${startTime}s-${endTime}s.wav`;
-             zip.file(fileName, wavBuffer);
-        }
-        // ---------------------------------------------------------------------
-
-        const base64Audio = await blobToBase64(new Blob([wavBuffer], { type: 'audio/wav' }));
-        const timeOffset = chunkDef.start / SAMPLE_RATE;
-        const actualDuration = chunkSamples.length / SAMPLE_RATE;
+// Engine settings are the Gemini config itself (key, model, sampling, prompt, quota)
+const createGeminiProvider: TranscriptionProviderFactory<GeminiConfig> = (options, config) => {
+    const apiKey = config.apiKey;
+    const isAutoLanguage = options.language === AUTO_DETECT_LANGUAGE;
+    let detectedLanguage: string | undefined;
 
-        const ai = getAI(apiKey);
-        
-        // Strict prompt to ensure no data loss
-        const prompt = `Transcribe the audio exactly. Output valid JSON array: [{ "start": float, "end": float, "text": string }]. 
-Timestamps must be relative to the start of this clip (0.0). 
-Include every spoken word. Do not summarize. Do not skip segments. Verbatim transcription only.`;
+    return {
+        id: 'gemini',
+        label: 'Gemini Cloud',
+        concurrency: MAX_GEMINI_CONCURRENCY,
 
-        // Removed Sending Log
+        prepare: async () => {
+            if (!apiKey && (!process.env.API_KEY || process.env.API_KEY === '')) {
+                throw new Error("API Key is missing. Please enter your Gemini API Key in Settings.");
+            }
+        },
 
-        let attempt = 0;
-        const MAX_RETRIES = 3;
+        transcribeChunk: async (chunk) => {
+            const wavBuffer = encodeWAV(chunk.audio, chunk.sampleRate);
+            const base64Audio = await blobToBase64(new Blob([wavBuffer], { type: 'audio/wav' }));
+            const actualDuration = chunk.audio.length / chunk.sampleRate;
 
-        while (attempt < MAX_RETRIES) {
-            try {
-                const response = await ai.models.generateContent({
-                    model: 'gemini-2.5-flash',
-                    contents: [
-                        {
-                            parts: [
-                                { inlineData: { mimeType: 'audio/wav', data: base64Audio } },
-                                { text: prompt }
-                            ]
-                        }
-                    ],
-                    config: {
-                        temperature: 0.0,
-                        responseMimeType: 'application/json',
-                        responseSchema: {
-                            type: Type.ARRAY,
-                            items: {
-                                type: Type.OBJECT,
-                                properties: {
-                                    start: { type: Type.NUMBER },
-                                    end: { type: Type.NUMBER },
-                                    text: { type: Type.STRING }
-                                },
-                                required: ["start", "end", "text"]
+            const ai = getAI(apiKey);
+            
+            // The instructions come from the (editable) template; the JSON contract below is fixed
+            const instructions = renderPromptTemplate(config.transcriptionPrompt || DEFAULT_TRANSCRIPTION_PROMPT, {
+                language: isAutoLanguage ? '' : getLanguageName(options.language),
+                glossary: (options.glossary || []).join(', '),
+                duration: actualDuration.toFixed(1)
+            });
+            const isTranslate = options.task === 'translate';
+            const outputInstruction = isTranslate
+                ? `Translate the speech into natural English subtitles. Each segment's "text" must be English.`
+                : `Transcribe in the spoken language (do not translate).`;
+            const languageInstruction = isAutoLanguage
+                ? `Identify the spoken language. Report it as an ISO 639-1 code in "language".`
+                : `The spoken language is ${getLanguageName(options.language)}. Set "language" to "${options.language}".`;
+            const wordInstruction = options.wordTimestamps
+                ? `For each segment also list every word with its own timing in "words": [{ "start": float, "end": float, "text": string }].`
+                : '';
+            const prompt = `${isTranslate ? 'Translate' : 'Transcribe'} the audio exactly. Output valid JSON: { "language": string, "segments": [{ "start": float, "end": float, "text": string }] }. 
+${languageInstruction} ${outputInstruction} ${wordInstruction}
+"language" is always the spoken (source) language.
+Timestamps must be relative to the start of this clip (0.0).${isTranslate ? '' : ' Verbatim transcription only.'}
+${instructions}`;
+
+            const limiter = getGeminiLimiter(apiKey, config);
+            const estimatedTokens = Math.ceil(actualDuration * AUDIO_TOKENS_PER_SECOND) + PROMPT_TOKENS;
+
+            let attempt = 0;
+            const MAX_RETRIES = 3;
+
+            while (attempt < MAX_RETRIES) {
+                try {
+                    const response = await limiter.schedule(estimatedTokens, async (reportTokens) => {
+                        const result = await ai.models.generateContent({
+                            model: config.model || DEFAULT_GEMINI_MODEL,
+                            contents: [
+                                {
+                                    parts: [
+                                        { inlineData: { mimeType: 'audio/wav', data: base64Audio } },
+                                        { text: prompt }
+                                    ]
+                                }
+                            ],
+                            config: {
+                                temperature: config.temperature ?? 0.0,
+                                responseMimeType: 'application/json',
+                                responseSchema: {
+                                    type: Type.OBJECT,
+                                    properties: {
+                                        language: { type: Type.STRING },
+                                        segments: {
+                                            type: Type.ARRAY,
+                                            items: {
+                                                type: Type.OBJECT,
+                                                properties: {
+                                                    start: { type: Type.NUMBER },
+                                                    end: { type: Type.NUMBER },
+                                                    text: { type: Type.STRING },
+                                                    ...(options.wordTimestamps ? {
+                                                        words: {
+                                                            type: Type.ARRAY,
+                                                            items: {
+                                                                type: Type.OBJECT,
+                                                                properties: {
+                                                                    start: { type: Type.NUMBER },
+                                                                    end: { type: Type.NUMBER },
+                                                                    text: { type: Type.STRING }
+                                                                },
+                                                                required: ["start", "end", "text"]
+                                                            }
+                                                        }
+                                                    } : {})
+                                                },
+                                                required: ["start", "end", "text"]
+                                            }
+                                        }
+                                    },
+                                    required: ["language", "segments"]
+                                }
                             }
-                        }
+                        });
+                        if (result.usageMetadata?.totalTokenCount) reportTokens(result.usageMetadata.totalTokenCount);
+                        return result;
+                    }, () => chunk.jobId !== activeJobId);
+                    // Cancelled while waiting for the rate limiter
+                    if (!response) return null;
+
+                    if (response.text) {
+                        const parsed = JSON.parse(response.text);
+                        // Tolerate a bare array in case the model ignores the envelope
+                        const rawSegments = (Array.isArray(parsed) ? parsed : parsed.segments || []) as {start: number, end: number, text: string, words?: {start: number, end: number, text: string}[]}[];
+                        if (!detectedLanguage && !Array.isArray(parsed)) detectedLanguage = normalizeLanguageCode(parsed.language);
+                        const scale = detectTimeScale(rawSegments, actualDuration);
+                        return rawSegments.map(s => ({
+                            id: 0,
+                            start: (parseTimestamp(s.start) * scale) + chunk.timeOffset,
+                            end: (parseTimestamp(s.end) * scale) + chunk.timeOffset,
+                            text: s.text.trim(),
+                            words: s.words && s.words.length > 0 ? s.words.map(w => ({
+                                start: (parseTimestamp(w.start) * scale) + chunk.timeOffset,
+                                end: (parseTimestamp(w.end) * scale) + chunk.timeOffset,
+                                text: w.text.trim()
+                            })) : undefined
+                        })).filter(s => s.text.length > 0);
                     }
-                });
-
-                if (response.text) {
-                    const rawSegments = JSON.parse(response.text) as {start: number, end: number, text: string}[];
-                    const scale = detectTimeScale(rawSegments, actualDuration);
-                    const processedSegments = rawSegments.map(s => ({
-                        id: 0,
-                        start: (parseTimestamp(s.start) * scale) + timeOffset,
-                        end: (parseTimestamp(s.end) * scale) + timeOffset,
-                        text: s.text.trim()
-                    })).filter(s => s.text.length > 0);
-
-                    return processedSegments;
+                    return [];
+
+                } catch (e: any) {
+                    console.warn(`[Gemini Online] Retry #${attempt + 1} for Chunk #${chunk.index} failed.`, e);
+                    // The limiter already waited out every rate-limit hint it got
+                    if (isRateLimitError(e)) throw new Error(`Rate limit reached: ${e?.message || 'quota exhausted'}`);
+                    attempt++;
+                    if (attempt >= MAX_RETRIES) throw new Error(e?.message || "Gemini request failed.");
+                    const delay = Math.pow(2, attempt - 1) * 1000;
+                    await new Promise(resolve => setTimeout(resolve, delay));
                 }
-                return [];
-
-            } catch (e: any) {
-                console.warn(`[Gemini Online] Retry #${attempt + 1} for Chunk #${chunkDef.index} failed.`, e);
-                attempt++;
-                if (attempt >= MAX_RETRIES) return [];
-                const delay = Math.pow(2, attempt - 1) * 1000;
-                await new Promise(resolve => setTimeout(resolve, delay));
             }
-        }
-        return [];
-    };
+            return null;
+        },
 
-    if (onStatus) onStatus(testMode ? "Transcribing Last Segment..." : "Transcribing Segments...");
-    onProgress([]);
-
-    const CONCURRENCY_LIMIT = 2;
-    const processingIterator = chunksToProcess.values();
-
-    // Using a shared iterator for workers allows them to consume chunks from the filtered list
-    const worker = async () => {
-        for (const chunkDef of processingIterator) {
-            if (jobId !== undefined && jobId !== activeJobId) break; // Cancellation check
-
-            // Track max index for UI rendering purposes
-            if (chunkDef.index > maxIndexFound) maxIndexFound = chunkDef.index;
-            
-            const segs = await processChunk(chunkDef);
-            resultsMap[chunkDef.index] = segs;
-            updateProgress();
-        }
+        getDetectedLanguage: () => isAutoLanguage ? detectedLanguage : options.language
     };
-
-    const workers = [];
-    for (let i = 0; i < CONCURRENCY_LIMIT; i++) {
-        workers.push(worker());
-    }
-    await Promise.all(workers);
-    
-    // Download ZIP if in Test Mode
-    if (testMode && zip) {
-        await saveDebugZip(zip);
-    }
-
-    let finalSegments: SubtitleSegment[] = [];
-    // Final pass to ensure everything is collected
-    // In test mode, only collect the chunks we processed
-    const finalIndices = testMode ? chunksToProcess.map(c => c.index) : Array.from({length: maxIndexFound + 1}, (_, i) => i);
-    
-    for (const i of finalIndices) {
-        if (resultsMap[i]) finalSegments = finalSegments.concat(resultsMap[i]);
-    }
-    finalSegments.sort((a, b) => a.start - b.start);
-    return finalSegments.map((s, i) => ({ ...s, id: i }));
 };
 
-export const getWordDefinition = async (word: string, context: string, isOffline: boolean, localLLMConfig: LocalLLMConfig, apiKey?: string): Promise<WordDefinition> => {
+registerTranscriptionProvider('gemini', createGeminiProvider);
+
+export const getWordDefinition = async (word: string, context: string, isOffline: boolean, localLLMConfig: LocalLLMConfig, geminiConfig?: GeminiConfig): Promise<WordDefinition> => {
     if (isOffline) {
         if (localLLMConfig.enabled) {
             return await getLocalLLMDefinition(word, context, localLLMConfig);
@@ -930,37 +823,41 @@ export const getWordDefinition = async (word: string, context: string, isOffline
              return await lookupWord(word, context); 
         }
     } else {
-        return await getWordDefinitionOnline(word, context, apiKey);
+        return await getWordDefinitionOnline(word, context, geminiConfig);
     }
 };
 
-const getWordDefinitionOnline = async (word: string, context: string, apiKey?: string): Promise<WordDefinition> => {
+const getWordDefinitionOnline = async (word: string, context: string, geminiConfig?: GeminiConfig): Promise<WordDefinition> => {
+    const apiKey = geminiConfig?.apiKey;
     if (!apiKey && (!process.env.API_KEY || process.env.API_KEY === '')) {
          throw new Error("API Key is missing. Please enter your Gemini API Key in Settings.");
     }
-    const response = await getAI(apiKey).models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: `Define the word "${word}" based on this context: "${context}".
-                   Return JSON with: word, phonetic (IPA), partOfSpeech, meaning, usage (short usage in context), example (a new example sentence).`,
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                    word: { type: Type.STRING },
-                    phonetic: { type: Type.STRING },
-                    partOfSpeech: { type: Type.STRING },
-                    meaning: { type: Type.STRING },
-                    usage: { type: Type.STRING },
-                    example: { type: Type.STRING }
+    const instructions = renderPromptTemplate(geminiConfig?.definitionPrompt || DEFAULT_DEFINITION_PROMPT, { word, context });
+    const prompt = `${instructions}
+                   Return JSON with: word, phonetic (IPA), partOfSpeech, meaning, usage (short usage in context), example (a new example sentence).`;
+    return requestValidatedJSON(prompt, async (contents) => {
+        const response = await getAI(apiKey).models.generateContent({
+            model: geminiConfig?.model || DEFAULT_GEMINI_MODEL,
+            contents,
+            config: {
+                responseMimeType: 'application/json',
+                responseSchema: {
+                    type: Type.OBJECT,
+                    properties: {
+                        word: { type: Type.STRING },
+                        phonetic: { type: Type.STRING },
+                        partOfSpeech: { type: Type.STRING },
+                        meaning: { type: Type.STRING },
+                        usage: { type: Type.STRING },
+                        example: { type: Type.STRING }
+                    },
+                    required: ['word', 'phonetic', 'partOfSpeech', 'meaning', 'usage', 'example']
                 }
             }
-        }
-    });
-    if (response.text) {
-        return JSON.parse(response.text) as WordDefinition;
-    }
-    throw new Error("Failed to parse definition");
+        });
+        if (!response.text) throw new Error("Empty definition response");
+        return response.text;
+    }, value => validateWordDefinition(value, word));
 };
 
 export const playAudio = async (text: string) => {
@@ -969,20 +866,86 @@ export const playAudio = async (text: string) => {
 
 
 // --- LOCAL LLM IMPLEMENTATION ---
-export const fetchLocalModels = async (endpoint: string): Promise<string[]> => {
-    try {
-        const baseUrl = endpoint.replace(/\/$/, '');
-        const response = await fetch(`${baseUrl}/api/tags`);
+// Speaks either Ollama's native API or the OpenAI-compatible one. OpenAI-style endpoints
+// are accepted with or without the /v1 suffix.
+const getOpenAIBaseUrl = (endpoint: string) => {
+    const baseUrl = endpoint.replace(/\/+$/, '');
+    return /\/v1$/.test(baseUrl) ? baseUrl : `${baseUrl}/v1`;
+};
+
+export const fetchLocalModels = async (endpoint: string, protocol: LocalLLMProtocol = 'ollama'): Promise<string[]> => {
+    if (protocol === 'openai') {
+        const response = await fetch(`${getOpenAIBaseUrl(endpoint)}/models`);
         if (!response.ok) throw new Error('Failed to connect to Local LLM');
         const data = await response.json();
-        return data.models.map((m: any) => m.name);
-    } catch (e) {
-        throw e;
+        return (data.data || []).map((m: any) => m.id);
     }
+    const baseUrl = endpoint.replace(/\/$/, '');
+    const response = await fetch(`${baseUrl}/api/tags`);
+    if (!response.ok) throw new Error('Failed to connect to Local LLM');
+    const data = await response.json();
+    return data.models.map((m: any) => m.name);
 };
 
-const getLocalLLMDefinition = async (word: string, context: string, config: LocalLLMConfig): Promise<WordDefinition> => {
+// Sends one prompt and returns the raw text of the answer, to be read with parseLLMJSON.
+// OpenAI-compatible servers are asked to constrain the output to the schema; Ollama gets
+// its plain JSON mode.
+const generateLocalJSON = async (config: LocalLLMConfig, prompt: string, schema: object): Promise<string> => {
+    if (config.protocol === 'openai') {
+        const request = (responseFormat?: object) => fetch(`${getOpenAIBaseUrl(config.endpoint)}/chat/completions`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                model: config.model,
+                messages: [{ role: 'user', content: prompt }],
+                stream: false,
+                ...(responseFormat ? { response_format: responseFormat } : {})
+            })
+        });
+
+        let response = await request({ type: 'json_schema', json_schema: { name: 'response', schema, strict: true } });
+        // Servers without structured output reject json_schema; fall back to JSON mode, then to the prompt alone
+        if (response.status === 400 || response.status === 422) response = await request({ type: 'json_object' });
+        if (response.status === 400 || response.status === 422) response = await request();
+        if (!response.ok) throw new Error(`Local LLM error: ${response.status}`);
+
+        const data = await response.json();
+        const content = data.choices?.[0]?.message?.content;
+        if (typeof content !== 'string') throw new Error("Local LLM returned no message");
+        return content;
+    }
+
     const baseUrl = config.endpoint.replace(/\/$/, '');
+    const response = await fetch(`${baseUrl}/api/generate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            model: config.model,
+            prompt: prompt,
+            stream: false,
+            format: "json"
+        })
+    });
+    if (!response.ok) throw new Error(`Local LLM error: ${response.status}`);
+    const data = await response.json();
+    return data.response;
+};
+
+const DEFINITION_JSON_SCHEMA = {
+    type: 'object',
+    properties: {
+        word: { type: 'string' },
+        phonetic: { type: 'string' },
+        partOfSpeech: { type: 'string' },
+        meaning: { type: 'string' },
+        usage: { type: 'string' },
+        example: { type: 'string' }
+    },
+    required: ['word', 'phonetic', 'partOfSpeech', 'meaning', 'usage', 'example'],
+    additionalProperties: false
+};
+
+const getLocalLLMDefinition = async (word: string, context: string, config: LocalLLMConfig): Promise<WordDefinition> => {
     const prompt = `Define the word "${word}" based on this context: "${context}".
     Return a JSON object with exactly these keys:
     - word (string)
@@ -995,188 +958,252 @@ const getLocalLLMDefinition = async (word: string, context: string, config: Loca
     Output valid JSON only. Do not include markdown or explanations.`;
 
     try {
-        const response = await fetch(`${baseUrl}/api/generate`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-                model: config.model,
-                prompt: prompt,
-                stream: false,
-                format: "json" 
-            })
-        });
-
-        const data = await response.json();
-        const text = data.response;
-        return JSON.parse(text) as WordDefinition;
-    } catch (e) {
-        throw new Error("Failed to get definition from Local LLM");
+        return await requestValidatedJSON(
+            prompt,
+            p => generateLocalJSON(config, p, DEFINITION_JSON_SCHEMA),
+            value => validateWordDefinition(value, word)
+        );
+    } catch (e: any) {
+        throw new Error(`Failed to get definition from Local LLM: ${e?.message || 'unknown error'}`);
     }
 };
 
-// --- LOCAL ASR (WHISPER) IMPLEMENTATION ---
-export const testLocalWhisperConnection = async (endpoint: string): Promise<boolean> => {
-    try {
-        await fetch(endpoint, { method: 'OPTIONS', credentials: 'omit' });
-        return true; 
-    } catch (e: any) {
-        try {
-             await fetch(endpoint, { method: 'GET', mode: 'no-cors' });
-             return true; 
-        } catch {
-            return false;
-        }
-    }
+// --- SUBTITLE TRANSLATION (BILINGUAL TRACKS) ---
+// Lines are sent in batches so each request keeps neighbouring context without
+// overflowing small local models. Results are keyed by segment id.
+const TRANSLATION_BATCH_SIZE = 25;
+let activeTranslationJobId = 0;
+
+export const cancelSubtitleTranslation = () => {
+    activeTranslationJobId++;
 };
 
-const generateSubtitlesLocalServer = async (
-    audioData: Float32Array, 
-    onProgress: (segments: SubtitleSegment[]) => void,
-    config: LocalASRConfig,
-    segmentationMethod: SegmentationMethod,
-    vadSettings: VADSettings,
-    testMode: boolean,
-    jobId?: number
-): Promise<SubtitleSegment[]> => {
-    const SAMPLE_RATE = 16000;
-    
-    let chunksToProcess: ChunkDefinition[];
+const buildTranslationPrompt = (lines: { id: number; text: string }[], targetLanguage: string) => {
+    return `Translate each subtitle line into ${getLanguageName(targetLanguage)}.
+    Lines are consecutive lines of the same video; use the surrounding lines as context but translate each line on its own.
+    Keep the translation natural and concise, suitable for subtitles.
+    Return a JSON object with key "translations": an array of objects with "id" (number, copied from the input) and "translation" (string).
+    Output valid JSON only. Do not include markdown or explanations.
 
-    if (testMode) {
-        const batchSamples = vadSettings.batchSize * SAMPLE_RATE;
-        const start = Math.max(0, audioData.length - batchSamples);
-        chunksToProcess = [{
-            index: 0,
-            start: start,
-            end: audioData.length
-        }];
-        console.log(`%c[Test VAD] Processing Last Raw Batch: ${start/SAMPLE_RATE}s - ${audioData.length/SAMPLE_RATE}s`, "color: orange; font-weight: bold;");
-    } else {
-        const chunkGenerator = getChunkDefinitions(audioData, SAMPLE_RATE, segmentationMethod, vadSettings, undefined);
-        chunksToProcess = Array.from(chunkGenerator);
+    Lines:
+    ${JSON.stringify(lines)}`;
+};
+
+const parseTranslationResponse = (text: string): Map<number, string> => {
+    const result = new Map<number, string>();
+    const parsed: any = parseLLMJSON(text);
+    const list: any[] = Array.isArray(parsed) ? parsed : (parsed?.translations || []);
+    for (const item of list) {
+        const id = Number(item?.id);
+        const translation = typeof item?.translation === 'string' ? item.translation.trim() : '';
+        if (!isNaN(id) && translation) result.set(id, translation);
     }
+    return result;
+};
 
-    let allSegments: SubtitleSegment[] = [];
-    
-    // Test Mode: Initialize ZIP
-    const zip = testMode ? new JSZip() : null;
-    const lastChunks: { name: string; data: ArrayBuffer }[] = []; 
-
-    // Local server usually can't handle concurrency well on consumer GPU, so we do sequential
-    for (const chunkDef of chunksToProcess) {
-        if (jobId !== undefined && jobId !== activeJobId) break; // Cancellation check
-
-        const chunkSamples = audioData.slice(chunkDef.start, chunkDef.end);
-        const chunkStartTime = chunkDef.start / SAMPLE_RATE;
-        const chunkDuration = chunkSamples.length / SAMPLE_RATE;
-
-        const wavBuffer = encodeWAV(chunkSamples, SAMPLE_RATE);
-
-        // --- DEBUG: BUFFER CHUNK (ROLLING 2) ---
-        if (testMode) {
-             const startTime = chunkStartTime.toFixed(2);
-             const endTime = (chunkDef.end / SAMPLE_RATE).toFixed(2);
-             const fileName = `chunk_${chunkDef.index.toString().padStart(3, '0')}_${startTime}s-${endTime}s.wav`;
-             
-             lastChunks.push({ name: fileName, data: wavBuffer });
-             if (lastChunks.length > 2) lastChunks.shift();
+const translateBatchOnline = async (lines: { id: number; text: string }[], targetLanguage: string, geminiConfig?: GeminiConfig): Promise<Map<number, string>> => {
+    const response = await getAI(geminiConfig?.apiKey).models.generateContent({
+        model: geminiConfig?.model || DEFAULT_GEMINI_MODEL,
+        contents: buildTranslationPrompt(lines, targetLanguage),
+        config: {
+            responseMimeType: 'application/json',
+            responseSchema: {
+                type: Type.OBJECT,
+                properties: {
+                    translations: {
+                        type: Type.ARRAY,
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                id: { type: Type.NUMBER },
+                                translation: { type: Type.STRING }
+                            },
+                            required: ['id', 'translation']
+                        }
+                    }
+                },
+                required: ['translations']
+            }
         }
-        // ---------------------------------------------------------------------
+    });
+    if (!response.text) throw new Error("Empty translation response");
+    return parseTranslationResponse(response.text);
+};
 
-        const audioBlob = new Blob([wavBuffer], { type: 'audio/wav' });
-        const file = new File([audioBlob], "chunk.wav", { type: "audio/wav" });
+const TRANSLATION_JSON_SCHEMA = {
+    type: 'object',
+    properties: {
+        translations: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    id: { type: 'number' },
+                    translation: { type: 'string' }
+                },
+                required: ['id', 'translation'],
+                additionalProperties: false
+            }
+        }
+    },
+    required: ['translations'],
+    additionalProperties: false
+};
 
-        // Removed Sending Log
-        
-        const formData = new FormData();
-        formData.append('file', file);
-        formData.append('model', config.model || 'whisper-1');
-        formData.append('response_format', 'verbose_json'); 
-        
-        try {
-            const response = await fetch(config.endpoint, {
-                method: 'POST',
-                body: formData
-            });
+const translateBatchLocal = async (lines: { id: number; text: string }[], targetLanguage: string, config: LocalLLMConfig): Promise<Map<number, string>> => {
+    const text = await generateLocalJSON(config, buildTranslationPrompt(lines, targetLanguage), TRANSLATION_JSON_SCHEMA);
+    return parseTranslationResponse(text);
+};
 
-            if (response.ok) {
-                const data = await response.json();
-                
-                // --- LOGGING RETURN DATA (LOCAL SERVER) ---
-                console.log(`%c[Local Whisper Return] Chunk #${chunkDef.index} Data:`, "color: #10b981; font-weight: bold;", data);
+// Translates the whole transcript batch by batch. Each finished batch is reported through
+// onBatch so the UI can show translations while the job is still running.
+// Returns false if the job was cancelled or superseded.
+export const translateSubtitles = async (
+    segments: SubtitleSegment[],
+    targetLanguage: string,
+    isOffline: boolean,
+    localLLMConfig: LocalLLMConfig,
+    geminiConfig: GeminiConfig | undefined,
+    onBatch: (translations: Map<number, string>) => void,
+    onProgress?: (done: number, total: number) => void
+): Promise<boolean> => {
+    if (isOffline && !localLLMConfig.enabled) {
+        throw new Error("Translation in offline mode needs a Local LLM. Enable it in Settings.");
+    }
+    if (!isOffline && !geminiConfig?.apiKey && (!process.env.API_KEY || process.env.API_KEY === '')) {
+        throw new Error("API Key is missing. Please enter your Gemini API Key in Settings.");
+    }
 
-                let rawSegments: any[] = [];
-                
-                if (data.segments && Array.isArray(data.segments)) {
-                    rawSegments = data.segments;
-                } else if (Array.isArray(data)) {
-                    rawSegments = data;
-                } else if (data.text) {
-                    rawSegments = [{ start: 0, end: chunkDuration, text: data.text }];
-                }
+    const jobId = ++activeTranslationJobId;
+    const lines = segments.map(s => ({ id: s.id, text: s.text }));
+    let failedBatches = 0;
 
-                if (rawSegments.length > 0) {
-                    // Check override first, otherwise auto-detect
-                    const scale = config.timeScale || detectTimeScale(rawSegments, chunkDuration);
-                    const chunkSegments: SubtitleSegment[] = rawSegments.map((s: any) => {
-                         const startRaw = parseTimestamp(s.start);
-                         const endRaw = parseTimestamp(s.end);
-                         return {
-                             id: 0,
-                             start: (startRaw * scale) + chunkStartTime,
-                             end: (endRaw * scale) + chunkStartTime,
-                             text: s.text?.trim() || ""
-                         };
-                    }).filter(s => s.text.length > 0);
-
-                    // Merge logic
-                    for (const seg of chunkSegments) {
-                        const last = allSegments[allSegments.length - 1];
-                        if (last) {
-                            if (seg.text === last.text) continue;
-                            const cleanSeg = seg.text.toLowerCase().trim();
-                            const cleanLast = last.text.toLowerCase().trim();
-                            if (cleanSeg.length > 3 && cleanLast.endsWith(cleanSeg)) continue;
-                            // Remove artificial overlap fix here too
-                        }
-                        if (seg.end > seg.start) allSegments.push(seg);
-                    }
-                    
-                    allSegments.sort((a,b) => a.start - b.start);
-                    onProgress(allSegments.map((s, i) => ({...s, id: i})));
-                }
+    for (let i = 0; i < lines.length; i += TRANSLATION_BATCH_SIZE) {
+        if (jobId !== activeTranslationJobId) return false;
+        const batch = lines.slice(i, i + TRANSLATION_BATCH_SIZE);
+
+        let translations: Map<number, string> | null = null;
+        for (let attempt = 0; attempt < 2 && !translations; attempt++) {
+            try {
+                translations = isOffline
+                    ? await translateBatchLocal(batch, targetLanguage, localLLMConfig)
+                    : await translateBatchOnline(batch, targetLanguage, geminiConfig);
+            } catch (e) {
+                console.warn(`Translation batch ${i / TRANSLATION_BATCH_SIZE} failed (attempt ${attempt + 1})`, e);
             }
-        } catch (e) {}
+        }
+
+        if (jobId !== activeTranslationJobId) return false;
+        if (translations) onBatch(translations);
+        else failedBatches++;
+        if (onProgress) onProgress(Math.min(i + TRANSLATION_BATCH_SIZE, lines.length), lines.length);
     }
 
-    if (testMode && zip) {
-        lastChunks.forEach(c => zip.file(c.name, c.data));
-        await saveDebugZip(zip);
+    if (failedBatches > 0 && failedBatches === Math.ceil(lines.length / TRANSLATION_BATCH_SIZE)) {
+        throw new Error("Translation failed. Check your LLM connection.");
     }
+    return true;
+};
+
+// --- IN-BROWSER (WORKER) TRANSCRIPTION PROVIDER ---
 
-    return allSegments.map((s, i) => ({ ...s, id: i }));
+// Converts a worker 'partial' payload to segments. Hallucination filtering happens in the
+// orchestrator (applySegmentFilters) for all engines alike.
+const toWorkerSegments = (data: any[]): SubtitleSegment[] => {
+    const rawSegments: SubtitleSegment[] = (data || []).map((chunk: any) => ({
+       id: 0, 
+       start: chunk.timestamp[0],
+       end: chunk.timestamp[1],
+       text: chunk.text.trim(),
+       words: chunk.words?.map((w: any) => ({ start: w.timestamp[0], end: w.timestamp[1], text: w.text })).filter((w: SubtitleWord) => w.text)
+    }));
+
+    return rawSegments.filter((s: SubtitleSegment) => s.text.length > 0);
 };
 
-const formatTime = (seconds: number) => {
-    const m = Math.floor(seconds / 60);
-    const s = Math.floor(seconds % 60);
-    return `${m}:${s.toString().padStart(2, '0')}`;
+export interface BrowserProviderConfig {
+    modelId: string; // Transformers.js Whisper model
+}
+
+const createBrowserProvider: TranscriptionProviderFactory<BrowserProviderConfig> = (options, config) => {
+    // Detected on the first chunk, then pinned for the rest of the job
+    let language: string | undefined = options.language === AUTO_DETECT_LANGUAGE ? undefined : options.language;
+
+    return {
+        id: 'browser',
+        label: 'In-Browser Whisper',
+        // One worker, one chunk at a time to avoid overloading the worker memory/queue
+        concurrency: 1,
+
+        transcribeChunk: (chunk, onPartial) => {
+            const w = initWorker();
+            let chunkSegments: SubtitleSegment[] = [];
+
+            return new Promise((resolve, reject) => {
+                const chunkHandler = (e: MessageEvent) => {
+                    if (e.data.jobId !== chunk.jobId) return;
+
+                    if (e.data.type === 'partial') {
+                        // --- LOGGING RETURN DATA (WORKER) ---
+                        if (e.data.data && e.data.data.length > 0) {
+                            console.log(`%c[Whisper Worker Return] Partial Results:`, "color: #10b981; font-weight: bold;", e.data.data);
+                        }
+                        chunkSegments = chunkSegments.concat(toWorkerSegments(e.data.data));
+                        if (onPartial) onPartial(chunkSegments);
+                    }
+                    if (e.data.type === 'complete') {
+                        w.removeEventListener('message', chunkHandler);
+                        if (!language && e.data.language) language = normalizeLanguageCode(e.data.language);
+                        console.log(`%c[Whisper Worker Return] Chunk #${chunk.index} Complete. Segments: ${chunkSegments.length}`, "color: #10b981; font-weight: bold;");
+                        resolve(chunkSegments);
+                    }
+                    if (e.data.type === 'error') {
+                        w.removeEventListener('message', chunkHandler);
+                        reject(new Error(e.data.data));
+                    }
+                };
+                w.addEventListener('message', chunkHandler);
+
+                w.postMessage({
+                    type: 'generate',
+                    data: { audio: chunk.audio, model: config.modelId, jobId: chunk.jobId, timeOffset: chunk.timeOffset, language, task: options.task, wordTimestamps: options.wordTimestamps, prompt: buildWhisperPrompt(options.glossary || []) }
+                });
+            });
+        },
+
+        getDetectedLanguage: () => language
+    };
 };
 
+registerTranscriptionProvider('browser', createBrowserProvider);
 
 // --- ORCHESTRATOR ---
+
+// Engine-independent clean-up of a chunk: hallucination filter, then glossary spelling fixes
+const postProcessSegments = (segments: SubtitleSegment[], options: TranscriptionOptions): { kept: SubtitleSegment[]; filtered: FilteredSegment[] } => {
+    const { kept, filtered } = options.filterSettings
+        ? applySegmentFilters(segments, options.filterSettings)
+        : { kept: segments, filtered: [] };
+    return {
+        kept: options.glossary && options.glossary.length > 0 ? applyGlossaryCorrections(kept, options.glossary) : kept,
+        filtered
+    };
+};
+
 export const generateSubtitles = async (
     videoFile: File, 
     onProgress: (segments: SubtitleSegment[]) => void, 
-    isOffline: boolean,
-    modelId: string,
-    apiKey: string,
-    localASRConfig: LocalASRConfig,
+    engine: TranscriptionEngine,
+    options: TranscriptionOptions,
     segmentationMethod: SegmentationMethod,
     vadSettings: VADSettings,
     testMode: boolean = false,
     cachedAudioData?: Float32Array,
-    onStatus?: (status: string) => void
+    onStatus?: (status: string) => void,
+    resumeKey?: string, // Enables per-chunk checkpointing; omit for test runs
+    onLanguageDetected?: (language: string) => void,
+    onFiltered?: (filtered: FilteredSegment[]) => void, // Everything the filter pipeline removed so far
+    onChunkStatus?: (chunks: ChunkStatus[]) => void
 ): Promise<SubtitleSegment[]> => {
     
     // Start new job
@@ -1186,13 +1213,9 @@ export const generateSubtitles = async (
     // NEW: Clear logs
     console.clear(); 
     console.log("%c[System] Logs cleared. Starting generation...", "color: #a78bfa; font-weight: bold;");
-    
-    // Clear accumulation for new run (legacy global var, but used by worker callbacks)
-    accumulatedSegments = []; 
 
-    if (!isOffline) {
-        return await generateSubtitlesOnline(videoFile, apiKey, onProgress, segmentationMethod, vadSettings, testMode, cachedAudioData, onStatus, jobId);
-    }
+    const provider = createTranscriptionProvider(engine, options);
+    if (provider.prepare) await provider.prepare(onStatus);
 
     let audioData: Float32Array;
     if (cachedAudioData) {
@@ -1200,106 +1223,197 @@ export const generateSubtitles = async (
     } else {
         if (onStatus) onStatus("Decoding Audio (Full File)...");
         const data = await getAudioData(videoFile, true);
-        if (typeof data === 'string') throw new Error("Received string data for offline processing.");
+        if (typeof data === 'string') throw new Error("Received string data for VAD processing.");
         audioData = data;
     }
 
     if (onStatus) onStatus("Analyzing Audio Structure...");
 
     const SAMPLE_RATE = 16000;
+    
+    let chunksToProcess: ChunkDefinition[];
 
-    if (localASRConfig.enabled) {
-        return await generateSubtitlesLocalServer(audioData, onProgress, localASRConfig, segmentationMethod, vadSettings, testMode, jobId);
+    if (testMode) {
+        // "Pre-segmentation" last chunk: Raw batch from end of file
+        const batchSamples = vadSettings.batchSize * SAMPLE_RATE;
+        const start = Math.max(0, audioData.length - batchSamples);
+        chunksToProcess = [{
+            index: 0,
+            start: start,
+            end: audioData.length
+        }];
+        console.log(`%c[Test VAD] Processing Last Raw Batch: ${start/SAMPLE_RATE}s - ${audioData.length/SAMPLE_RATE}s`, "color: orange; font-weight: bold;");
+    } else {
+        const chunkGenerator = getChunkDefinitions(audioData, SAMPLE_RATE, segmentationMethod, vadSettings, undefined, options.chunkOverlap);
+        chunksToProcess = Array.from(chunkGenerator);
     }
 
-    // In-Browser Worker
-    // Note: To support VAD here, we must stream chunks to the worker sequentially.
-    return new Promise(async (resolve, reject) => {
-        const w = initWorker();
-        onSubtitleProgressCallback = onProgress;
-        
-        let chunksToProcess: ChunkDefinition[];
-
-        if (testMode) {
-            const batchSamples = vadSettings.batchSize * SAMPLE_RATE;
-            const start = Math.max(0, audioData.length - batchSamples);
-            chunksToProcess = [{
-                index: 0,
-                start: start,
-                end: audioData.length
-            }];
-             console.log(`%c[Test VAD] Processing Last Raw Batch: ${start/SAMPLE_RATE}s - ${audioData.length/SAMPLE_RATE}s`, "color: orange; font-weight: bold;");
-             if (onStatus) onStatus("Running AI Model on Last Batch (Raw)...");
-        } else {
-            const chunkGenerator = getChunkDefinitions(audioData, SAMPLE_RATE, segmentationMethod, vadSettings, undefined);
-            chunksToProcess = Array.from(chunkGenerator);
-             if (onStatus) onStatus("Running AI Model...");
+    // Resume: chunks finished by an earlier (interrupted) run are not sent again
+    const checkpoints = resumeKey ? await loadChunkCheckpoints(resumeKey) : new Map<string, SubtitleSegment[]>();
+    if (checkpoints.size > 0) console.log(`%c[Checkpoint] Resuming with ${checkpoints.size} completed chunk(s).`, "color: #a78bfa; font-weight: bold;");
+
+    const resultsMap: Record<number, SubtitleSegment[]> = {};
+    const filteredMap: Record<number, FilteredSegment[]> = {};
+
+    // A failed chunk leaves a gap; it is reported instead of aborting the whole run
+    const statusMap: Record<number, ChunkStatus> = {};
+    chunksToProcess.forEach(c => {
+        statusMap[c.index] = { index: c.index, start: c.start / SAMPLE_RATE, end: c.end / SAMPLE_RATE, state: 'pending' };
+    });
+    const setChunkStatus = (index: number, state: ChunkStatus['state'], error?: string) => {
+        statusMap[index] = { ...statusMap[index], state, error };
+        if (onChunkStatus) onChunkStatus(chunksToProcess.map(c => statusMap[c.index]));
+    };
+
+    // Checkpoints keep the raw engine output, so changed filter settings apply on resume
+    const filterChunk = (index: number, segments: SubtitleSegment[]): SubtitleSegment[] => {
+        const { kept, filtered } = postProcessSegments(segments, options);
+        filteredMap[index] = filtered;
+        return kept;
+    };
+    
+    // Test Mode: Initialize ZIP
+    const zip = testMode ? new JSZip() : null;
+    const lastChunks: { name: string; data: ArrayBuffer }[] = [];
+
+    const collectSegments = () => stitchChunks(chunksToProcess.map(c => ({
+        audioStart: (c.audioStart ?? c.start) / SAMPLE_RATE,
+        audioEnd: c.end / SAMPLE_RATE,
+        segments: resultsMap[c.index]
+    })));
+
+    let reportedLanguage: string | undefined;
+
+    const updateProgress = () => {
+        const allSegments = collectSegments();
+        if (allSegments.length > 0) onProgress(mergeSegments(allSegments));
+        if (onFiltered) onFiltered(chunksToProcess.flatMap(c => filteredMap[c.index] || []));
+
+        const language = provider.getDetectedLanguage?.();
+        if (language && language !== reportedLanguage) {
+            reportedLanguage = language;
+            if (onLanguageDetected) onLanguageDetected(language);
         }
-        
-        // Test Mode: Initialize ZIP
-        const zip = testMode ? new JSZip() : null;
-        const lastChunks: { name: string; data: ArrayBuffer }[] = [];
+    };
 
-        // We'll process chunks sequentially to avoid overloading the worker memory/queue
-        try {
-            for (const chunkDef of chunksToProcess) {
-                // Check if job cancelled (simple check: if activeJobId changed)
-                if (jobId !== activeJobId) {
-                    console.log(`[Offline Job] Job ID ${jobId} cancelled by newer request.`);
-                    break;
-                }
+    if (onStatus) onStatus(testMode ? `Running ${provider.label} on Last Batch (Raw)...` : `Transcribing Segments (${provider.label})...`);
+    onProgress([]);
+    if (onChunkStatus) onChunkStatus(chunksToProcess.map(c => statusMap[c.index]));
 
-                const chunkSamples = audioData.slice(chunkDef.start, chunkDef.end);
-                const timeOffset = chunkDef.start / SAMPLE_RATE;
-
-                // --- DEBUG: BUFFER CHUNK (ROLLING 2) ---
-                if (testMode) {
-                        const wavBuffer = encodeWAV(chunkSamples, SAMPLE_RATE);
-                        const startTime = timeOffset.toFixed(2);
-                        const endTime = (chunkDef.end / SAMPLE_RATE).toFixed(2);
-                        const fileName = `chunk_${chunkDef.index.toString().padStart(3, '0')}_${startTime}s-${endTime}s.wav`;
-                        
-                        lastChunks.push({ name: fileName, data: wavBuffer });
-                        if (lastChunks.length > 2) lastChunks.shift();
-                }
-                // ---------------------------------------------------------------------
-
-                // Create a promise for this specific chunk
-                await new Promise<void>((chunkResolve, chunkReject) => {
-                    const chunkHandler = (e: MessageEvent) => {
-                        if (e.data.jobId === jobId) {
-                            if (e.data.type === 'complete') {
-                                w.removeEventListener('message', chunkHandler);
-                                chunkResolve();
-                            }
-                            if (e.data.type === 'error') {
-                                w.removeEventListener('message', chunkHandler);
-                                chunkReject(new Error(e.data.data));
-                            }
-                            // 'partial' events are handled by the global initWorker onmessage
-                        }
-                    };
-                    w.addEventListener('message', chunkHandler);
-                    
-                    // Removed Sending Log (Worker)
+    // Using a shared iterator lets parallel runners consume chunks from one list
+    const processingIterator = chunksToProcess.values();
 
-                    w.postMessage({
-                        type: 'generate',
-                        data: { audio: chunkSamples, model: modelId, jobId, timeOffset }
-                    });
-                });
+    const runner = async () => {
+        for (const chunkDef of processingIterator) {
+            if (jobId !== activeJobId) {
+                console.log(`[Job] Job ID ${jobId} cancelled by newer request.`);
+                break;
             }
-            
-            if (testMode && zip) {
-                lastChunks.forEach(c => zip.file(c.name, c.data));
-                await saveDebugZip(zip);
+
+            const restored = getCheckpointedChunk(checkpoints, chunkDef.start, chunkDef.end);
+            if (restored) {
+                resultsMap[chunkDef.index] = filterChunk(chunkDef.index, restored);
+                setChunkStatus(chunkDef.index, 'done');
+                updateProgress();
+                continue;
             }
 
-            resolve(accumulatedSegments);
-        } catch (e) {
-            reject(e);
+            const audioStart = chunkDef.audioStart ?? chunkDef.start;
+            const chunkSamples = audioData.slice(audioStart, chunkDef.end);
+            const timeOffset = audioStart / SAMPLE_RATE;
+
+            // --- DEBUG: BUFFER CHUNK (ROLLING 2) ---
+            if (testMode) {
+                const wavBuffer = encodeWAV(chunkSamples, SAMPLE_RATE);
+                const startTime = timeOffset.toFixed(2);
+                const endTime = (chunkDef.end / SAMPLE_RATE).toFixed(2);
+                const fileName = `chunk_${chunkDef.index.toString().padStart(3, '0')}_${startTime}s-${endTime}s.wav`;
+                
+                lastChunks.push({ name: fileName, data: wavBuffer });
+                if (lastChunks.length > 2) lastChunks.shift();
+            }
+            // ---------------------------------------------------------------------
+
+            let segs: SubtitleSegment[] | null = null;
+            let failure = "No result from the engine.";
+            try {
+                segs = await provider.transcribeChunk(
+                    { index: chunkDef.index, audio: chunkSamples, sampleRate: SAMPLE_RATE, timeOffset, jobId },
+                    (partial) => {
+                        if (jobId !== activeJobId) return;
+                        resultsMap[chunkDef.index] = filterChunk(chunkDef.index, partial);
+                        updateProgress();
+                    }
+                );
+            } catch (e: any) {
+                console.warn(`[Job] Chunk #${chunkDef.index} failed.`, e);
+                failure = e?.message || failure;
+            }
+            if (jobId !== activeJobId) break;
+
+            resultsMap[chunkDef.index] = filterChunk(chunkDef.index, segs || []);
+            // Failed chunks are not checkpointed so a restart retries them
+            if (segs && resumeKey && !testMode) await saveChunkCheckpoint(resumeKey, chunkDef.start, chunkDef.end, segs);
+            setChunkStatus(chunkDef.index, segs ? 'done' : 'failed', segs ? undefined : failure);
+            updateProgress();
         }
+    };
+
+    const runners = [];
+    for (let i = 0; i < Math.max(1, provider.concurrency); i++) {
+        runners.push(runner());
+    }
+    await Promise.all(runners);
+    
+    // Download ZIP if in Test Mode
+    if (testMode && zip) {
+        lastChunks.forEach(c => zip.file(c.name, c.data));
+        await saveDebugZip(zip);
+    }
+
+    return mergeSegments(collectSegments());
+};
+
+// --- RANGE RE-TRANSCRIPTION ---
+// Runs a single time span of already decoded audio through one provider, e.g. to fix a
+// garbled line without re-running the whole file. Shares the job id with generateSubtitles,
+// so starting one cancels the other. Returns null if cancelled.
+export const transcribeRange = async (
+    audioData: Float32Array,
+    startTime: number,
+    endTime: number,
+    engine: TranscriptionEngine,
+    options: TranscriptionOptions,
+    onStatus?: (status: string) => void
+): Promise<SubtitleSegment[] | null> => {
+    activeJobId++;
+    const jobId = activeJobId;
+
+    const provider = createTranscriptionProvider(engine, options);
+    if (provider.prepare) await provider.prepare(onStatus);
+    if (jobId !== activeJobId) return null;
+
+    const SAMPLE_RATE = 16000;
+    // A little audio either side keeps the first and last word from being clipped
+    const PADDING_SEC = 0.3;
+    const startSample = Math.max(0, Math.floor((startTime - PADDING_SEC) * SAMPLE_RATE));
+    const endSample = Math.min(audioData.length, Math.ceil((endTime + PADDING_SEC) * SAMPLE_RATE));
+    if (endSample <= startSample) throw new Error("Selected range is outside the audio.");
+
+    if (onStatus) onStatus(`Re-transcribing ${(endTime - startTime).toFixed(1)}s (${provider.label})...`);
+    console.log(`%c[Re-transcribe] ${startTime.toFixed(2)}s - ${endTime.toFixed(2)}s via ${provider.label}`, "color: #a78bfa; font-weight: bold;");
+
+    const segs = await provider.transcribeChunk({
+        index: 0,
+        audio: audioData.slice(startSample, endSample),
+        sampleRate: SAMPLE_RATE,
+        timeOffset: startSample / SAMPLE_RATE,
+        jobId
     });
+    if (jobId !== activeJobId) return null;
+    if (!segs) throw new Error(`${provider.label} could not transcribe the selected range.`);
+
+    return mergeSegments(postProcessSegments(segs, options).kept);
 };
 
 export const preloadOfflineModel = (modelId: string) => {
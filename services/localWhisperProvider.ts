@@ -0,0 +1,153 @@
+import { LocalASRConfig, SegmentConfidence, SubtitleWord } from "../types";
+import { detectTimeScale, parseTimestamp } from "../utils/subtitleFormats";
+import { encodeWAV } from "../utils/wav";
+import { AUTO_DETECT_LANGUAGE, normalizeLanguageCode } from "../utils/languages";
+import { buildWhisperPrompt } from "../utils/glossary";
+import { getWhisperServerProfile } from "./whisperServerProfiles";
+import { registerTranscriptionProvider, TranscriptionProviderFactory } from "./transcriptionProviders";
+
+// --- LOCAL WHISPER SERVER ---
+// Sends chunks to a Whisper server on this machine or the LAN. The request and response
+// dialect comes from the configured server profile.
+
+// --- CONNECTION TEST ---
+export interface WhisperHandshakeResult {
+    ok: boolean;
+    message: string;
+}
+
+// Sends a second of 440 Hz tone the way transcription would and checks that the answer is
+// in the profile's format. A tone has no speech, so any (or no) text is fine.
+export const testLocalWhisperConnection = async (config: LocalASRConfig): Promise<WhisperHandshakeResult> => {
+    const profile = getWhisperServerProfile(config.profile);
+    const sampleRate = 16000;
+    const tone = new Float32Array(sampleRate);
+    for (let i = 0; i < tone.length; i++) tone[i] = 0.2 * Math.sin(2 * Math.PI * 440 * i / sampleRate);
+    const file = new File([encodeWAV(tone, sampleRate)], "handshake.wav", { type: "audio/wav" });
+    const { url, body } = profile.buildRequest(config.endpoint, file, { model: config.model, language: 'en', translate: false, wordTimestamps: false });
+
+    const startedAt = performance.now();
+    let response: Response;
+    try {
+        response = await fetch(url, { method: 'POST', body });
+    } catch {
+        return { ok: false, message: 'No answer. Check the endpoint, that the server is running and that it allows CORS.' };
+    }
+    const elapsed = Math.round(performance.now() - startedAt);
+    if (!response.ok) {
+        return { ok: false, message: `Server returned HTTP ${response.status}${response.status === 404 ? ' (wrong route for this profile?)' : ''}.` };
+    }
+
+    let data: any;
+    try {
+        data = await response.json();
+    } catch {
+        return { ok: false, message: 'Server answered, but not with JSON.' };
+    }
+    const parsed = profile.parseResponse(data, 1);
+    if (!parsed) return { ok: false, message: `Answer is not in the ${profile.label} format. Try another profile.` };
+    if (!parsed.timestamps) return { ok: false, message: 'Server answered with plain text only; segment timestamps are missing.' };
+    return { ok: true, message: `Connected to ${profile.label} (${elapsed} ms, ${parsed.segments.length} segment${parsed.segments.length === 1 ? '' : 's'}).` };
+};
+
+// --- TRANSCRIPTION PROVIDER ---
+
+// verbose_json decoder statistics; absent fields stay undefined
+const readConfidence = (s: any): SegmentConfidence | undefined => {
+    const num = (v: any) => typeof v === 'number' && isFinite(v) ? v : undefined;
+    const confidence: SegmentConfidence = {
+        avgLogprob: num(s.avg_logprob),
+        noSpeechProb: num(s.no_speech_prob),
+        compressionRatio: num(s.compression_ratio)
+    };
+    return Object.values(confidence).some(v => v !== undefined) ? confidence : undefined;
+};
+
+// Engine settings are the local ASR config itself
+const createLocalServerProvider: TranscriptionProviderFactory<LocalASRConfig> = (options, config) => {
+    const profile = getWhisperServerProfile(config.profile);
+    const isAutoLanguage = options.language === AUTO_DETECT_LANGUAGE;
+    const isTranslate = options.task === 'translate';
+    let detectedLanguage: string | undefined;
+
+    return {
+        id: 'local-server',
+        label: 'Local Whisper Server',
+        // Local server usually can't handle concurrency well on consumer GPU, so we do sequential
+        concurrency: 1,
+
+        transcribeChunk: async (chunk) => {
+            const chunkDuration = chunk.audio.length / chunk.sampleRate;
+            const wavBuffer = encodeWAV(chunk.audio, chunk.sampleRate);
+            const audioBlob = new Blob([wavBuffer], { type: 'audio/wav' });
+            const file = new File([audioBlob], "chunk.wav", { type: "audio/wav" });
+
+            const { url, body } = profile.buildRequest(config.endpoint, file, {
+                model: config.model,
+                language: isAutoLanguage ? undefined : options.language,
+                translate: isTranslate,
+                wordTimestamps: options.wordTimestamps,
+                prompt: buildWhisperPrompt(options.glossary || []) || undefined
+            });
+            
+            try {
+                const response = await fetch(url, {
+                    method: 'POST',
+                    body
+                });
+
+                if (!response.ok) {
+                    throw new Error(`Server returned HTTP ${response.status}.`);
+                }
+
+                const data = await response.json();
+                
+                // --- LOGGING RETURN DATA (LOCAL SERVER) ---
+                console.log(`%c[Local Whisper Return] Chunk #${chunk.index} Data:`, "color: #10b981; font-weight: bold;", data);
+
+                const parsed = profile.parseResponse(data, chunkDuration);
+                if (!parsed) throw new Error(`Answer is not in the ${profile.label} format.`);
+                if (!detectedLanguage) detectedLanguage = normalizeLanguageCode(parsed.language);
+
+                const rawSegments = parsed.segments;
+                if (rawSegments.length === 0) return [];
+
+                // Manual override first, then the profile's unit, otherwise auto-detect
+                const scale = config.timeScale || profile.timeScale || detectTimeScale(rawSegments, chunkDuration);
+                const toWords = (list: any[]): SubtitleWord[] => list.map((w: any) => ({
+                    start: (parseTimestamp(w.start) * scale) + chunk.timeOffset,
+                    end: (parseTimestamp(w.end) * scale) + chunk.timeOffset,
+                    text: (w.word ?? w.text ?? '').trim()
+                })).filter(w => w.text.length > 0);
+
+                // OpenAI returns words at the top level; faster-whisper and whisperX nest them per segment
+                const topLevelWords = toWords(parsed.words);
+
+                return rawSegments.map((s: any) => {
+                     const startRaw = parseTimestamp(s.start);
+                     const endRaw = parseTimestamp(s.end);
+                     const start = (startRaw * scale) + chunk.timeOffset;
+                     const end = (endRaw * scale) + chunk.timeOffset;
+                     const words = Array.isArray(s.words)
+                         ? toWords(s.words)
+                         : topLevelWords.filter(w => w.start >= start - 0.01 && w.start < end);
+                     return {
+                         id: 0,
+                         start,
+                         end,
+                         text: s.text?.trim() || "",
+                         words: words.length > 0 ? words : undefined,
+                         confidence: readConfidence(s)
+                     };
+                }).filter(s => s.text.length > 0);
+            } catch (e) {
+                console.warn(`[Local Whisper] Chunk #${chunk.index} request failed.`, e);
+                throw new Error(e?.message || "Request to the local server failed.");
+            }
+        },
+
+        getDetectedLanguage: () => isAutoLanguage ? detectedLanguage : options.language
+    };
+};
+
+registerTranscriptionProvider('local-server', createLocalServerProvider);
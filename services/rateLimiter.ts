@@ -0,0 +1,129 @@
+import { RateLimitBudget } from "../types";
+
+// --- CLIENT-SIDE RATE LIMITER ---
+// Schedules requests against one rate-limited API key. Keeps requests and tokens inside the
+// per-minute budget, adapts concurrency to observed latency and 429s (additive increase,
+// multiplicative decrease) and waits out the server's retry-after hint before retrying.
+
+export interface RateLimiter {
+    // Runs task once a slot and enough budget are free. Rate-limit errors are retried after
+    // the server's hint; other errors are passed through. Resolves null if cancelled while waiting.
+    schedule: <T>(
+        estimatedTokens: number,
+        task: (reportTokens: (tokens: number) => void) => Promise<T>,
+        isCancelled?: () => boolean
+    ) => Promise<T | null>;
+    setBudget: (budget: RateLimitBudget) => void;
+}
+
+const WINDOW_MS = 60_000;
+const POLL_MS = 200;
+// A server-side throttle after this many waits is most likely an exhausted daily quota
+const MAX_RATE_LIMIT_RETRIES = 5;
+// Latency per token this much above the running baseline means the backend is queueing us
+const SLOWDOWN_FACTOR = 2;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const isRateLimitError = (e: any): boolean => {
+    if (e?.status === 429 || e?.code === 429) return true;
+    return /\b429\b|RESOURCE_EXHAUSTED|rate limit|quota/i.test(String(e?.message || ''));
+};
+
+// Milliseconds the server asked us to wait, from a Retry-After header or a RetryInfo detail
+export const getRetryAfterMs = (e: any): number | undefined => {
+    const header = e?.headers?.get?.('retry-after') ?? e?.response?.headers?.get?.('retry-after');
+    if (header) {
+        const seconds = Number(header);
+        if (!isNaN(seconds)) return seconds * 1000;
+        const date = Date.parse(header);
+        if (!isNaN(date)) return Math.max(0, date - Date.now());
+    }
+    const message = String(e?.message || '');
+    const match = message.match(/"retryDelay"\s*:\s*"([\d.]+)s"/) || message.match(/retry (?:in|after) ([\d.]+)\s*s/i);
+    return match ? parseFloat(match[1]) * 1000 : undefined;
+};
+
+export const createRateLimiter = (maxConcurrency: number, initialConcurrency: number = 2): RateLimiter => {
+    let budget: RateLimitBudget = { requestsPerMinute: 0, tokensPerMinute: 0 };
+    let concurrency = Math.min(initialConcurrency, maxConcurrency);
+    let inFlight = 0;
+    let pausedUntil = 0;
+    let successStreak = 0;
+    let baselineLatency: number | null = null; // ms per 1000 tokens, moving average
+
+    const started: { time: number; tokens: number }[] = []; // Requests of the last minute
+    const queue: number[] = []; // Waiting tickets, served in order
+    let nextTicket = 0;
+
+    // Milliseconds until a request of this size fits; 0 = now
+    const getWait = (tokens: number, now: number): number => {
+        while (started.length > 0 && started[0].time <= now - WINDOW_MS) started.shift();
+        if (now < pausedUntil) return pausedUntil - now;
+        if (inFlight >= concurrency) return POLL_MS;
+
+        const oldest = started[0];
+        if (!oldest) return 0;
+        const untilOldestExpires = oldest.time + WINDOW_MS - now;
+        if (budget.requestsPerMinute > 0 && started.length >= budget.requestsPerMinute) return untilOldestExpires;
+        const used = started.reduce((sum, r) => sum + r.tokens, 0);
+        if (budget.tokensPerMinute > 0 && used + tokens > budget.tokensPerMinute) return untilOldestExpires;
+        return 0;
+    };
+
+    const onSuccess = (latency: number, tokens: number) => {
+        const sample = latency / Math.max(1, tokens / 1000);
+        if (baselineLatency !== null && sample > baselineLatency * SLOWDOWN_FACTOR) {
+            concurrency = Math.max(1, concurrency - 1);
+            successStreak = 0;
+            console.log(`%c[Rate Limiter] Backend slowing down; concurrency ${concurrency}.`, "color: #f59e0b;");
+        } else if (++successStreak >= concurrency && concurrency < maxConcurrency) {
+            concurrency++;
+            successStreak = 0;
+        }
+        baselineLatency = baselineLatency === null ? sample : baselineLatency * 0.8 + sample * 0.2;
+    };
+
+    const onRateLimited = (waitMs: number) => {
+        concurrency = Math.max(1, Math.floor(concurrency / 2));
+        successStreak = 0;
+        pausedUntil = Math.max(pausedUntil, Date.now() + waitMs);
+        console.warn(`[Rate Limiter] Rate limited; pausing ${(waitMs / 1000).toFixed(1)}s, concurrency ${concurrency}.`);
+    };
+
+    const schedule: RateLimiter['schedule'] = async (estimatedTokens, task, isCancelled) => {
+        for (let attempt = 0; ; attempt++) {
+            const ticket = nextTicket++;
+            queue.push(ticket);
+            try {
+                while (true) {
+                    if (isCancelled?.()) return null;
+                    const wait = queue[0] === ticket ? getWait(estimatedTokens, Date.now()) : POLL_MS;
+                    if (wait === 0) break;
+                    await sleep(Math.min(wait, POLL_MS * 5));
+                }
+            } finally {
+                queue.splice(queue.indexOf(ticket), 1);
+            }
+
+            const entry = { time: Date.now(), tokens: estimatedTokens };
+            started.push(entry);
+            inFlight++;
+            try {
+                const result = await task(tokens => { entry.tokens = tokens; });
+                onSuccess(Date.now() - entry.time, entry.tokens);
+                return result;
+            } catch (e) {
+                if (!isRateLimitError(e) || attempt >= MAX_RATE_LIMIT_RETRIES) throw e;
+                onRateLimited(getRetryAfterMs(e) ?? Math.pow(2, attempt) * 5000);
+            } finally {
+                inFlight--;
+            }
+        }
+    };
+
+    return {
+        schedule,
+        setBudget: (next) => { budget = next; }
+    };
+};
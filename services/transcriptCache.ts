@@ -0,0 +1,139 @@
+import { CachedTranscript, ChunkCheckpoint, SubtitleSegment, TranscriptSettings } from "../types";
+import { idbDeleteByPrefix, idbGet, idbGetAllByPrefix, idbPut, STORES } from "../utils/idb";
+
+// The file is read in slices and chained through SHA-256 (each step hashes the previous digest
+// plus the next slice), so every byte counts while memory stays at one slice. The result is
+// kept per File, so the full read happens once.
+const HASH_SLICE_SIZE = 8 * 1024 * 1024; // 8MB
+
+const toHex = (buffer: ArrayBuffer) =>
+    Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const fingerprintCache = new WeakMap<File, Promise<string>>();
+
+export const getMediaFingerprint = (file: File): Promise<string> => {
+    let pending = fingerprintCache.get(file);
+    if (!pending) {
+        pending = (async () => {
+            let digest: ArrayBuffer = new TextEncoder().encode(`${file.size}:`).buffer as ArrayBuffer;
+            for (let offset = 0; offset < file.size || offset === 0; offset += HASH_SLICE_SIZE) {
+                const content = await new Blob([digest, file.slice(offset, offset + HASH_SLICE_SIZE)]).arrayBuffer();
+                digest = await crypto.subtle.digest('SHA-256', content);
+            }
+            return toHex(digest);
+        })();
+        fingerprintCache.set(file, pending);
+        // A failed read must not stick to the File
+        pending.catch(() => fingerprintCache.delete(file));
+    }
+    return pending;
+};
+
+// Short stable digest for long settings values (prompt templates) inside the key
+const hashString = (text: string): string => {
+    let hash = 5381;
+    for (let i = 0; i < text.length; i++) hash = ((hash * 33) ^ text.charCodeAt(i)) >>> 0;
+    return hash.toString(36);
+};
+
+// Serializes only the settings that affect the output, in a stable order
+export const getSettingsKey = (settings: TranscriptSettings): string => {
+    const parts: string[] = [settings.engine, settings.model, settings.language, settings.task, settings.wordTimestamps ? 'words' : 'segments', settings.segmentationMethod];
+    if (settings.segmentationMethod === 'vad' && settings.vadSettings) {
+        const v = settings.vadSettings;
+        parts.push(`${v.batchSize}/${v.minSilence}/${v.silenceThreshold}/${v.filteringEnabled ? 'f' : 'nf'}`);
+    }
+    // Omitted when off so transcripts cached before overlap existed still match
+    if (settings.chunkOverlap) parts.push(`overlap${settings.chunkOverlap}`);
+    if (settings.glossary && settings.glossary.length > 0) parts.push(`glossary:${settings.glossary.join(',')}`);
+    if (settings.filterSettings) {
+        const f = settings.filterSettings;
+        const rules = f.rules.filter(r => r.enabled && r.pattern.trim()).map(r => `${r.type}:${r.pattern}`).join(',');
+        parts.push(f.enabled ? `filter:${hashString(rules)}/${f.collapseRepetitions ? f.maxRepetitions : 'nc'}/${f.noSpeechThreshold}` : 'nofilter');
+    }
+    if (settings.temperature !== undefined) parts.push(`temp${settings.temperature}`);
+    if (settings.promptTemplate) parts.push(`prompt:${hashString(settings.promptTemplate)}`);
+    return parts.join('|');
+};
+
+const getCacheKey = (fingerprint: string, settings: TranscriptSettings) => `${fingerprint}|${getSettingsKey(settings)}`;
+
+export const loadCachedTranscript = async (file: File, settings: TranscriptSettings): Promise<CachedTranscript | null> => {
+    try {
+        const fingerprint = await getMediaFingerprint(file);
+        return (await idbGet<CachedTranscript>(STORES.transcripts, getCacheKey(fingerprint, settings))) || null;
+    } catch (e) {
+        console.warn("[Transcript Cache] Lookup failed", e);
+        return null;
+    }
+};
+
+export const saveCachedTranscript = async (file: File, settings: TranscriptSettings, segments: SubtitleSegment[], detectedLanguage?: string): Promise<void> => {
+    if (segments.length === 0) return;
+    try {
+        const fingerprint = await getMediaFingerprint(file);
+        await idbPut<CachedTranscript>(STORES.transcripts, {
+            key: getCacheKey(fingerprint, settings),
+            fingerprint,
+            fileName: file.name,
+            settings,
+            segments,
+            detectedLanguage,
+            createdAt: Date.now()
+        });
+        console.log(`%c[Transcript Cache] Saved ${segments.length} segments for ${file.name}`, "color: #a78bfa;");
+    } catch (e) {
+        console.warn("[Transcript Cache] Save failed", e);
+    }
+};
+
+// --- CHUNK CHECKPOINTS (Resumable Jobs) ---
+
+// Identifies a transcription job; chunk checkpoints are grouped under it
+export const getJobKey = async (file: File, settings: TranscriptSettings): Promise<string> => {
+    return getCacheKey(await getMediaFingerprint(file), settings);
+};
+
+const getChunkRangeKey = (chunkStart: number, chunkEnd: number) => `${chunkStart}-${chunkEnd}`;
+
+// Returns completed chunks of a previous run, keyed by "start-end" sample range
+export const loadChunkCheckpoints = async (jobKey: string): Promise<Map<string, SubtitleSegment[]>> => {
+    const result = new Map<string, SubtitleSegment[]>();
+    try {
+        const checkpoints = await idbGetAllByPrefix<ChunkCheckpoint>(STORES.checkpoints, `${jobKey}#`);
+        for (const c of checkpoints) {
+            result.set(getChunkRangeKey(c.chunkStart, c.chunkEnd), c.segments);
+        }
+    } catch (e) {
+        console.warn("[Checkpoint] Lookup failed", e);
+    }
+    return result;
+};
+
+export const getCheckpointedChunk = (checkpoints: Map<string, SubtitleSegment[]>, chunkStart: number, chunkEnd: number) => {
+    return checkpoints.get(getChunkRangeKey(chunkStart, chunkEnd));
+};
+
+export const saveChunkCheckpoint = async (jobKey: string, chunkStart: number, chunkEnd: number, segments: SubtitleSegment[]): Promise<void> => {
+    try {
+        await idbPut<ChunkCheckpoint>(STORES.checkpoints, {
+            key: `${jobKey}#${getChunkRangeKey(chunkStart, chunkEnd)}`,
+            jobKey,
+            chunkStart,
+            chunkEnd,
+            segments,
+            createdAt: Date.now()
+        });
+    } catch (e) {
+        console.warn("[Checkpoint] Save failed", e);
+    }
+};
+
+// Called once a job finishes; the full transcript lives in the transcript cache from then on
+export const clearChunkCheckpoints = async (jobKey: string): Promise<void> => {
+    try {
+        await idbDeleteByPrefix(STORES.checkpoints, `${jobKey}#`);
+    } catch (e) {
+        console.warn("[Checkpoint] Cleanup failed", e);
+    }
+};
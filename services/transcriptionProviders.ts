@@ -0,0 +1,58 @@
+import { SegmentFilterSettings, SubtitleSegment, TranscriptionEngine, TranscriptionTask } from "../types";
+
+// --- TRANSCRIPTION PROVIDER INTERFACE ---
+// A provider turns one audio chunk into subtitle segments. Chunking, resume, test-mode
+// debugging and merging are handled once by the orchestrator (generateSubtitles).
+// A provider lives in its own module, declares the shape of its engine settings there and
+// registers itself; nothing here needs to know about it.
+
+// Settings every engine honours
+export interface TranscriptionOptions {
+    glossary?: string[];         // Names and terms the engine should spell exactly
+    language: string;            // ISO 639-1 code or 'auto'
+    task: TranscriptionTask;
+    wordTimestamps: boolean;     // Request word-level timings where supported
+    filterSettings?: SegmentFilterSettings; // Applied by the orchestrator to every provider's output
+    chunkOverlap?: number;       // Seconds each chunk repeats of the previous one; seams are stitched
+    engineConfig?: unknown;      // Settings of the selected engine, in the shape its provider declares
+}
+
+export interface TranscriptionChunk {
+    index: number;
+    audio: Float32Array;  // 16kHz mono samples of this chunk
+    sampleRate: number;
+    timeOffset: number;   // Seconds from the start of the file
+    jobId: number;
+}
+
+export interface TranscriptionProvider {
+    id: TranscriptionEngine;
+    label: string;
+    concurrency: number;  // Max chunks in flight at once
+    // Optional one-time setup before the first chunk (credentials check, model load)
+    prepare?: (onStatus?: (status: string) => void) => Promise<void>;
+    // Returns segments with absolute timestamps. A failed chunk should throw with a short
+    // reason for the user; null is accepted as a failure without one.
+    // onPartial may be called with intermediate results for the same chunk.
+    transcribeChunk: (chunk: TranscriptionChunk, onPartial?: (segments: SubtitleSegment[]) => void) => Promise<SubtitleSegment[] | null>;
+    // Language reported by the backend so far (ISO 639-1), when auto-detecting
+    getDetectedLanguage?: () => string | undefined;
+}
+
+// C = the engine settings the provider reads from options.engineConfig
+export type TranscriptionProviderFactory<C> = (options: TranscriptionOptions, config: C) => TranscriptionProvider;
+
+// --- REGISTRY ---
+const providerFactories = new Map<string, TranscriptionProviderFactory<any>>();
+
+export const registerTranscriptionProvider = <C>(id: TranscriptionEngine, factory: TranscriptionProviderFactory<C>) => {
+    providerFactories.set(id, factory);
+};
+
+export const createTranscriptionProvider = (id: TranscriptionEngine, options: TranscriptionOptions): TranscriptionProvider => {
+    const factory = providerFactories.get(id);
+    if (!factory) {
+        throw new Error(`Unknown transcription engine "${id}".`);
+    }
+    return factory(options, options.engineConfig);
+};
@@ -0,0 +1,161 @@
+import { WhisperServerProfile } from "../types";
+
+// --- LOCAL WHISPER SERVER PROFILES ---
+// Every local Whisper server speaks its own dialect of "upload audio, get segments". A profile
+// knows the request shape, where segments and words sit in the answer and the time unit used.
+
+export interface WhisperServerRequestOptions {
+    model: string;
+    language?: string;    // undefined = let the server detect it
+    translate: boolean;
+    wordTimestamps: boolean;
+    prompt?: string;
+}
+
+// Answer in a common shape; times are still in the profile's unit
+export interface WhisperServerResponse {
+    segments: any[];
+    words: any[];         // Top-level word list of servers that don't nest words per segment
+    language?: string;
+    timestamps: boolean;  // false = plain text only, spread over the whole chunk
+}
+
+export interface WhisperServerProfileDefinition {
+    id: WhisperServerProfile;
+    label: string;
+    description: string;
+    defaultEndpoint: string;
+    defaultModel: string; // '' = the server picks its model at startup
+    timeScale?: number;   // Seconds per timestamp unit; undefined = detect from each answer
+    wordTimestamps: boolean; // Whether the request can ask for word-level timings
+    buildRequest: (endpoint: string, audio: File, options: WhisperServerRequestOptions) => { url: string; body: FormData };
+    parseResponse: (data: any, chunkDuration: number) => WhisperServerResponse | null; // null = not this server's format
+}
+
+// OpenAI multipart request; translation is a sibling route
+const buildOpenAIRequest: WhisperServerProfileDefinition['buildRequest'] = (endpoint, audio, options) => {
+    const body = new FormData();
+    body.append('file', audio);
+    body.append('model', options.model || 'whisper-1');
+    body.append('response_format', 'verbose_json');
+    if (options.wordTimestamps) {
+        body.append('timestamp_granularities[]', 'segment');
+        body.append('timestamp_granularities[]', 'word');
+    }
+    if (options.translate) {
+        // Servers without a dedicated translations route read the task from the form
+        body.append('task', 'translate');
+    } else if (options.language) {
+        body.append('language', options.language);
+    }
+    if (options.prompt) body.append('prompt', options.prompt);
+    const url = options.translate ? endpoint.replace(/\/audio\/transcriptions\/?$/, '/audio/translations') : endpoint;
+    return { url, body };
+};
+
+// verbose_json; some servers answer with a bare segment list or ignore the format and send text
+const parseOpenAIResponse: WhisperServerProfileDefinition['parseResponse'] = (data, chunkDuration) => {
+    const words = Array.isArray(data?.words) ? data.words : [];
+    if (Array.isArray(data?.segments)) return { segments: data.segments, words, language: data.language, timestamps: true };
+    if (Array.isArray(data)) return { segments: data, words: [], timestamps: true };
+    if (typeof data?.text === 'string') {
+        const segments = data.text.trim() ? [{ start: 0, end: chunkDuration, text: data.text }] : [];
+        return { segments, words: [], language: data.language, timestamps: false };
+    }
+    return null;
+};
+
+export const WHISPER_SERVER_PROFILES: WhisperServerProfileDefinition[] = [
+    {
+        id: 'faster-whisper',
+        label: 'faster-whisper-server',
+        description: 'OpenAI-style API with built-in VAD. Recommended.',
+        defaultEndpoint: 'http://127.0.0.1:8000/v1/audio/transcriptions',
+        defaultModel: 'large-v3',
+        timeScale: 1,
+        wordTimestamps: true,
+        buildRequest: buildOpenAIRequest,
+        parseResponse: parseOpenAIResponse
+    },
+    {
+        id: 'whisper-cpp',
+        label: 'whisper.cpp server',
+        description: 'Native /inference route of whisper.cpp\'s example server. Lightweight.',
+        defaultEndpoint: 'http://127.0.0.1:8080/inference',
+        defaultModel: '',
+        timeScale: 1,
+        // Word timings are not requested from /inference; Settings disables the option
+        wordTimestamps: false,
+        buildRequest: (endpoint, audio, options) => {
+            const body = new FormData();
+            body.append('file', audio);
+            body.append('response_format', 'verbose_json');
+            body.append('temperature', '0.0');
+            // whisper.cpp defaults to English unless asked to detect
+            body.append('language', options.language || 'auto');
+            if (options.translate) body.append('translate', 'true');
+            if (options.prompt) body.append('prompt', options.prompt);
+            return { url: endpoint, body };
+        },
+        parseResponse: (data) => {
+            if (!Array.isArray(data?.segments)) return null;
+            return { segments: data.segments, words: [], language: data.language, timestamps: true };
+        }
+    },
+    {
+        id: 'whisperx',
+        label: 'whisperX (whisper-asr-webservice)',
+        description: 'whisper-asr-webservice with ASR_ENGINE=whisperx. Aligned word timings.',
+        defaultEndpoint: 'http://127.0.0.1:9000/asr',
+        defaultModel: '',
+        timeScale: 1,
+        wordTimestamps: true,
+        buildRequest: (endpoint, audio, options) => {
+            const params = new URLSearchParams({
+                encode: 'true',
+                output: 'json',
+                task: options.translate ? 'translate' : 'transcribe',
+                word_timestamps: String(options.wordTimestamps)
+            });
+            if (options.language) params.set('language', options.language);
+            if (options.prompt) params.set('initial_prompt', options.prompt);
+            const body = new FormData();
+            body.append('audio_file', audio);
+            return { url: `${endpoint}${endpoint.includes('?') ? '&' : '?'}${params}`, body };
+        },
+        parseResponse: (data) => {
+            if (!Array.isArray(data?.segments)) return null;
+            // Alignment leaves some words (numbers, symbols) without timings
+            const segments = data.segments.map((s: any) => Array.isArray(s.words)
+                ? { ...s, words: s.words.filter((w: any) => typeof w.start === 'number' && typeof w.end === 'number') }
+                : s);
+            return { segments, words: [], language: data.language, timestamps: true };
+        }
+    },
+    {
+        id: 'openai',
+        label: 'OpenAI /v1/audio/transcriptions',
+        description: 'Servers following the OpenAI spec exactly (timestamps in seconds).',
+        defaultEndpoint: 'http://127.0.0.1:8080/v1/audio/transcriptions',
+        defaultModel: 'whisper-1',
+        timeScale: 1,
+        wordTimestamps: true,
+        buildRequest: buildOpenAIRequest,
+        parseResponse: parseOpenAIResponse
+    },
+    {
+        id: 'custom',
+        label: 'Other OpenAI-style server',
+        description: 'LocalAI and similar servers; timestamp units are detected from each answer.',
+        defaultEndpoint: 'http://127.0.0.1:8080/v1/audio/transcriptions',
+        defaultModel: 'whisper-large',
+        wordTimestamps: true,
+        buildRequest: buildOpenAIRequest,
+        parseResponse: parseOpenAIResponse
+    },
+];
+
+// Configs saved before profiles existed behave like 'custom'
+export const getWhisperServerProfile = (id: WhisperServerProfile | undefined): WhisperServerProfileDefinition => {
+    return WHISPER_SERVER_PROFILES.find(p => p.id === id) || WHISPER_SERVER_PROFILES.find(p => p.id === 'custom')!;
+};
@@ -1,10 +1,25 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Upload, BookOpen, ListVideo, X, Trash2, AlertCircle, Loader2, WifiOff, Wifi, ToggleLeft, ToggleRight, Download, CheckCircle2, ChevronDown, Settings, RefreshCw, Check, AlertTriangle, GripVertical, GripHorizontal, Cloud, Server, Mic, Terminal, Scissors, PlayCircle, FlaskConical, FileAudio, ExternalLink, Square } from 'lucide-react';
-import { SubtitleSegment, WordDefinition, VocabularyItem, PlaybackMode, LocalLLMConfig, GeminiConfig, LocalASRConfig, SegmentationMethod, VADSettings } from '../types';
-import { generateSubtitles, getWordDefinition, preloadOfflineModel, setLoadProgressCallback, fetchLocalModels, getAudioData, cancelSubtitleGeneration } from '../services/geminiService';
+import { Upload, BookOpen, ListVideo, X, Trash2, AlertCircle, Loader2, WifiOff, Wifi, ToggleLeft, ToggleRight, Download, CheckCircle2, ChevronDown, Settings, RefreshCw, Check, AlertTriangle, GripVertical, GripHorizontal, Cloud, Server, Mic, Terminal, Scissors, PlayCircle, FlaskConical, FileAudio, ExternalLink, Square, FileDown, FileUp, Subtitles, Database, Languages, Eye, EyeOff, Pencil, Undo2, Redo2, WrapText, RotateCcw, Filter, Plus, BookMarked } from 'lucide-react';
+import { SubtitleSegment, WordDefinition, VocabularyItem, PlaybackMode, LocalLLMConfig, LocalLLMProtocol, GeminiConfig, LocalASRConfig, WhisperServerProfile, SegmentationMethod, VADSettings, SubtitleStreamInfo, TranscriptSettings, TranscriptionTask, ResegmentSettings, TranscriptionEngine, SegmentFilterSettings, FilteredSegment, ChunkStatus, Glossary } from '../types';
+import { generateSubtitles, BrowserProviderConfig, DEFAULT_GEMINI_MODEL, GEMINI_MODELS, getWordDefinition, preloadOfflineModel, setLoadProgressCallback, fetchLocalModels, getAudioData, cancelSubtitleGeneration, translateSubtitles, cancelSubtitleTranslation, transcribeRange } from '../services/geminiService';
+import { testLocalWhisperConnection, WhisperHandshakeResult } from '../services/localWhisperProvider';
+import { WHISPER_SERVER_PROFILES, getWhisperServerProfile } from '../services/whisperServerProfiles';
 import { VideoControls } from '../components/VideoControls';
 import { WordDefinitionPanel } from '../components/WordDefinitionPanel';
-import { extractAudioAsWav } from '../services/converterService';
+import { SubtitleEditRow } from '../components/SubtitleEditRow';
+import { TimingToolPanel } from '../components/TimingToolPanel';
+import { resegmentSentences, DEFAULT_RESEGMENT_SETTINGS } from '../utils/sentenceSegmentation';
+import { getConfidenceIssues, findNextLowConfidence, isLowConfidence } from '../utils/confidence';
+import { DEFAULT_FILTER_SETTINGS, compileFilterRule, restoreFilteredSegment } from '../utils/segmentFilters';
+import { parseGlossaryTerms } from '../utils/glossary';
+import { DEFAULT_TRANSCRIPTION_PROMPT, DEFAULT_DEFINITION_PROMPT, TRANSCRIPTION_PLACEHOLDERS, DEFINITION_PLACEHOLDERS } from '../utils/promptTemplates';
+import { extractAudioAsWav, listSubtitleStreams, extractSubtitleStream } from '../services/converterService';
+import { TranscriptionOptions } from '../services/transcriptionProviders';
+import { loadCachedTranscript, saveCachedTranscript, getJobKey, clearChunkCheckpoints } from '../services/transcriptCache';
+import { AUTO_DETECT_LANGUAGE, SOURCE_LANGUAGES, getLanguageName, normalizeLanguageCode } from '../utils/languages';
+import { downloadSubtitles, parseSubtitles, SubtitleExportFormat } from '../utils/subtitleFormats';
+import { updateSegmentText, splitSegment, mergeWithNext, retimeSegment, deleteSegment, replaceSegmentRange, reindexSegments, applyTimingCorrection, LinearTimingCorrection, TimingAnchor } from '../utils/subtitleEditing';
+import { EMPTY_HISTORY, TranscriptChange, TranscriptHistory, getChangeLabel, recordChange, undoChange, redoChange } from '../utils/transcriptHistory';
 
 const OFFLINE_MODELS = [
     { id: 'Xenova/whisper-base', name: 'Base (Multilingual, ~75MB)' },
@@ -16,6 +31,12 @@ const OFFLINE_MODELS = [
     { id: 'Xenova/distil-whisper-large-v3', name: 'Distil-Large V3 (Best Accuracy, ~1.2GB)' },
 ];
 
+// llama.cpp server's default port; LM Studio (1234) and vLLM (8000) are entered by hand
+const LOCAL_LLM_DEFAULT_ENDPOINTS: Record<LocalLLMProtocol, string> = {
+    ollama: 'http://localhost:11434',
+    openai: 'http://localhost:8080/v1',
+};
+
 const formatTime = (seconds: number) => {
   const m = Math.floor(seconds / 60);
   const s = Math.floor(seconds % 60);
@@ -51,6 +72,20 @@ export default function App() {
   const [loadingWord, setLoadingWord] = useState(false);
   const [selectedWord, setSelectedWord] = useState<WordDefinition | null>(null);
   const [showVocabSidebar, setShowVocabSidebar] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [embeddedStreams, setEmbeddedStreams] = useState<SubtitleStreamInfo[] | null>(null);
+  const [isProbingStreams, setIsProbingStreams] = useState(false);
+  const [cachedTranscriptAt, setCachedTranscriptAt] = useState<number | null>(null); // Set when the track came from the transcript cache
+  const [isEditMode, setIsEditMode] = useState(false);
+  const [transcriptHistory, setTranscriptHistory] = useState<TranscriptHistory>(EMPTY_HISTORY);
+  const [timingAnchors, setTimingAnchors] = useState<TimingAnchor[]>([]);
+  const [editSelection, setEditSelection] = useState<{ anchor: number; focus: number } | null>(null); // Shift+click range in edit mode
+  const [retranscribeEngine, setRetranscribeEngine] = useState<TranscriptionEngine | 'current'>('current');
+  const [isRetranscribing, setIsRetranscribing] = useState(false);
+  const [filteredSegments, setFilteredSegments] = useState<FilteredSegment[]>([]); // Removed by the hallucination filter in the last run
+  const [showFilteredReview, setShowFilteredReview] = useState(false);
+  const [chunkStatus, setChunkStatus] = useState<ChunkStatus[]>([]); // Per-chunk outcome of the last run
+  const [isRetryingChunks, setIsRetryingChunks] = useState(false);
   
   // Layout Resizing State
   const [leftPanelWidth, setLeftPanelWidth] = useState(320);
@@ -86,6 +121,101 @@ export default function App() {
     }
   });
 
+  // Seconds each audio chunk repeats of the previous one (0 = off); seams are stitched by alignment
+  const [chunkOverlap, setChunkOverlap] = useState<number>(() => {
+      try {
+          const saved = localStorage.getItem('lingo_chunk_overlap');
+          return saved ? parseFloat(saved) : 0;
+      } catch {
+          return 0;
+      }
+  });
+
+  // Project glossaries; the active one is sent to every engine and corrects near-miss spellings
+  const [glossaries, setGlossaries] = useState<Glossary[]>(() => {
+      try {
+          const saved = localStorage.getItem('lingo_glossaries');
+          return saved ? JSON.parse(saved) : [];
+      } catch {
+          return [];
+      }
+  });
+  const [activeGlossaryId, setActiveGlossaryId] = useState<string>(() => {
+      try {
+          return localStorage.getItem('lingo_active_glossary') || '';
+      } catch {
+          return '';
+      }
+  });
+  const activeGlossary = glossaries.find(g => g.id === activeGlossaryId) || null;
+  const [glossaryDraft, setGlossaryDraft] = useState(''); // Terms text being edited, parsed on blur
+
+  // Source Language State ('auto' = let the engine detect it)
+  const [sourceLanguage, setSourceLanguage] = useState<string>(() => {
+      try {
+          return localStorage.getItem('lingo_source_language') || AUTO_DETECT_LANGUAGE;
+      } catch {
+          return AUTO_DETECT_LANGUAGE;
+      }
+  });
+  const [detectedLanguage, setDetectedLanguage] = useState<string | null>(null);
+
+  // Transcription Task State ('translate' = English subtitles from foreign audio)
+  const [transcriptionTask, setTranscriptionTask] = useState<TranscriptionTask>(() => {
+      try {
+          return (localStorage.getItem('lingo_transcription_task') as TranscriptionTask) || 'transcribe';
+      } catch {
+          return 'transcribe';
+      }
+  });
+
+  // Word-Level Timestamps (karaoke highlighting); costs extra compute / tokens
+  const [wordTimestamps, setWordTimestamps] = useState<boolean>(() => {
+      try {
+          return localStorage.getItem('lingo_word_timestamps') === 'true';
+      } catch {
+          return false;
+      }
+  });
+
+  // Bilingual Subtitles: target language defaults to the browser UI language
+  const [translationLanguage, setTranslationLanguage] = useState<string>(() => {
+      try {
+          return localStorage.getItem('lingo_translation_language') || normalizeLanguageCode(navigator.language?.split('-')[0]) || 'en';
+      } catch {
+          return 'en';
+      }
+  });
+  const [showTranslation, setShowTranslation] = useState<boolean>(() => {
+      try {
+          return localStorage.getItem('lingo_show_translation') !== 'false';
+      } catch {
+          return true;
+      }
+  });
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [translationProgress, setTranslationProgress] = useState<{ done: number; total: number } | null>(null);
+
+  // Sentence Re-segmentation Limits
+  const [resegmentSettings, setResegmentSettings] = useState<ResegmentSettings>(() => {
+      try {
+          const saved = localStorage.getItem('lingo_resegment_settings');
+          return saved ? { ...DEFAULT_RESEGMENT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_RESEGMENT_SETTINGS;
+      } catch {
+          return DEFAULT_RESEGMENT_SETTINGS;
+      }
+  });
+
+  // Hallucination / Repetition Filter
+  const [filterSettings, setFilterSettings] = useState<SegmentFilterSettings>(() => {
+      try {
+          const saved = localStorage.getItem('lingo_segment_filters');
+          return saved ? { ...DEFAULT_FILTER_SETTINGS, ...JSON.parse(saved) } : DEFAULT_FILTER_SETTINGS;
+      } catch {
+          return DEFAULT_FILTER_SETTINGS;
+      }
+  });
+
   // Sync Threshold State (New)
   const [syncThreshold, setSyncThreshold] = useState<number>(() => {
       try {
@@ -100,9 +230,10 @@ export default function App() {
   const [localLLMConfig, setLocalLLMConfig] = useState<LocalLLMConfig>(() => {
       try {
         const saved = localStorage.getItem('lingo_local_llm');
-        return saved ? JSON.parse(saved) : { enabled: false, endpoint: 'http://localhost:11434', model: '' };
+        const defaults: LocalLLMConfig = { enabled: false, protocol: 'ollama', endpoint: LOCAL_LLM_DEFAULT_ENDPOINTS.ollama, model: '' };
+        return saved ? { ...defaults, ...JSON.parse(saved) } : defaults;
       } catch {
-        return { enabled: false, endpoint: 'http://localhost:11434', model: '' };
+        return { enabled: false, protocol: 'ollama', endpoint: LOCAL_LLM_DEFAULT_ENDPOINTS.ollama, model: '' };
       }
   });
 
@@ -110,25 +241,29 @@ export default function App() {
   const [localASRConfig, setLocalASRConfig] = useState<LocalASRConfig>(() => {
       try {
         const saved = localStorage.getItem('lingo_local_asr');
-        return saved ? JSON.parse(saved) : { enabled: false, endpoint: 'http://127.0.0.1:8080/v1/audio/transcriptions', model: 'whisper-large' };
+        const defaults: LocalASRConfig = { enabled: false, profile: 'custom', endpoint: 'http://127.0.0.1:8080/v1/audio/transcriptions', model: 'whisper-large' };
+        return saved ? { ...defaults, ...JSON.parse(saved) } : defaults;
       } catch {
-        return { enabled: false, endpoint: 'http://127.0.0.1:8080/v1/audio/transcriptions', model: 'whisper-large' };
+        return { enabled: false, profile: 'custom', endpoint: 'http://127.0.0.1:8080/v1/audio/transcriptions', model: 'whisper-large' };
       }
   });
   
   // Online Gemini State
   const [geminiConfig, setGeminiConfig] = useState<GeminiConfig>(() => {
+      // Budget defaults match the free tier of Gemini 2.5 Flash
+      const defaultConfig = { apiKey: '', requestsPerMinute: 10, tokensPerMinute: 250000, model: DEFAULT_GEMINI_MODEL, temperature: 0, transcriptionPrompt: '', definitionPrompt: '' };
       try {
         const saved = localStorage.getItem('lingo_gemini_config');
-        return saved ? JSON.parse(saved) : { apiKey: '' };
+        return saved ? { ...defaultConfig, ...JSON.parse(saved) } : defaultConfig;
       } catch {
-        return { apiKey: '' };
+        return defaultConfig;
       }
   });
 
   const [localModels, setLocalModels] = useState<string[]>([]);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [checkingModel, setCheckingModel] = useState(false);
+  const [whisperHandshake, setWhisperHandshake] = useState<WhisperHandshakeResult | 'testing' | null>(null);
 
   // Model Management State
   const [selectedModelId, setSelectedModelId] = useState(OFFLINE_MODELS[0].id);
@@ -138,6 +273,10 @@ export default function App() {
   // Race condition protection & Audio Cache
   const processingIdRef = useRef(0);
   const audioDataCacheRef = useRef<Float32Array | null>(null);
+  const activeFileRef = useRef<File | null>(null);
+  const subtitlesRef = useRef<SubtitleSegment[]>([]);
+  subtitlesRef.current = subtitles; // Latest transcript for async handlers
+  const translationIdRef = useRef(0);
 
   // Seek Authority: 3-Strike Lock Mechanism
   // Stores the target index, start time, and consecutive successful hits
@@ -164,10 +303,55 @@ export default function App() {
     localStorage.setItem('lingo_vad_settings', JSON.stringify(vadSettings));
   }, [vadSettings]);
 
+  useEffect(() => {
+    localStorage.setItem('lingo_chunk_overlap', chunkOverlap.toString());
+  }, [chunkOverlap]);
+
+  useEffect(() => {
+    localStorage.setItem('lingo_glossaries', JSON.stringify(glossaries));
+  }, [glossaries]);
+
+  useEffect(() => {
+    localStorage.setItem('lingo_active_glossary', activeGlossaryId);
+  }, [activeGlossaryId]);
+
+  // Load the terms of the selected glossary into the editor
+  useEffect(() => {
+    setGlossaryDraft(activeGlossary ? activeGlossary.terms.join('\n') : '');
+  }, [activeGlossaryId]);
+
   useEffect(() => {
     localStorage.setItem('lingo_sync_threshold', syncThreshold.toString());
   }, [syncThreshold]);
 
+  useEffect(() => {
+    localStorage.setItem('lingo_source_language', sourceLanguage);
+  }, [sourceLanguage]);
+
+  useEffect(() => {
+    localStorage.setItem('lingo_transcription_task', transcriptionTask);
+  }, [transcriptionTask]);
+
+  useEffect(() => {
+    localStorage.setItem('lingo_word_timestamps', wordTimestamps.toString());
+  }, [wordTimestamps]);
+
+  useEffect(() => {
+    localStorage.setItem('lingo_segment_filters', JSON.stringify(filterSettings));
+  }, [filterSettings]);
+
+  useEffect(() => {
+    localStorage.setItem('lingo_resegment_settings', JSON.stringify(resegmentSettings));
+  }, [resegmentSettings]);
+
+  useEffect(() => {
+    localStorage.setItem('lingo_translation_language', translationLanguage);
+  }, [translationLanguage]);
+
+  useEffect(() => {
+    localStorage.setItem('lingo_show_translation', showTranslation.toString());
+  }, [showTranslation]);
+
   // --- Resizing Logic ---
   const startResizingLeft = useCallback(() => {
     isResizingLeft.current = true;
@@ -281,47 +465,102 @@ export default function App() {
       }
   };
 
+  // Switching protocol also swaps the endpoint while it is still the other protocol's default
+  const handleLocalLLMProtocolChange = (protocol: LocalLLMProtocol) => {
+    if (protocol === localLLMConfig.protocol) return;
+    setLocalModels([]);
+    setLocalLLMConfig(p => ({
+        ...p,
+        protocol,
+        endpoint: p.endpoint === LOCAL_LLM_DEFAULT_ENDPOINTS[p.protocol] ? LOCAL_LLM_DEFAULT_ENDPOINTS[protocol] : p.endpoint
+    }));
+  };
+
   const checkLocalConnection = async () => {
     setCheckingModel(true);
     try {
-        const models = await fetchLocalModels(localLLMConfig.endpoint);
+        const models = await fetchLocalModels(localLLMConfig.endpoint, localLLMConfig.protocol);
         setLocalModels(models);
         // Auto-select first if none selected
         if (!localLLMConfig.model && models.length > 0) {
             setLocalLLMConfig(p => ({ ...p, model: models[0] }));
         }
     } catch (e) {
-        alert("Could not connect to Local LLM. Make sure Ollama is running and accessible (check CORS settings).");
+        alert(`Could not connect to Local LLM. Make sure ${localLLMConfig.protocol === 'openai' ? 'the server' : 'Ollama'} is running and accessible (check CORS settings).`);
     } finally {
         setCheckingModel(false);
     }
   };
 
-  const applyASRPreset = (preset: string) => {
-    if (preset === 'localai') {
-        setLocalASRConfig(p => ({
-            ...p,
-            endpoint: 'http://127.0.0.1:8080/v1/audio/transcriptions',
-            model: 'whisper-large',
-            timeScale: 0.01
-        }));
-    } else if (preset === 'whispercpp') {
-        setLocalASRConfig(p => ({
-            ...p,
-            endpoint: 'http://127.0.0.1:8080/v1/audio/transcriptions',
-            model: 'whisper-1',
-            timeScale: 0.01
-        }));
-    } else if (preset === 'fasterwhisper') {
-        setLocalASRConfig(p => ({
+  // Choosing a profile switches to its route but keeps the configured host and port. The model
+  // follows the profile only while it is still the previous profile's default.
+  const applyWhisperProfile = (profile: WhisperServerProfile) => {
+    const definition = getWhisperServerProfile(profile);
+    setWhisperHandshake(null);
+    setLocalASRConfig(p => {
+        const previous = getWhisperServerProfile(p.profile);
+        let endpoint = definition.defaultEndpoint;
+        try {
+            const route = new URL(definition.defaultEndpoint);
+            endpoint = `${new URL(p.endpoint).origin}${route.pathname}${route.search}`;
+        } catch {
+            // Empty or invalid endpoint: use the profile default
+        }
+        return {
             ...p,
-            endpoint: 'http://127.0.0.1:8080/v1/audio/transcriptions',
-            model: 'large-v3',
+            profile,
+            endpoint,
+            model: !p.model || p.model === previous.defaultModel ? definition.defaultModel : p.model,
             timeScale: undefined
-        }));
-    }
+        };
+    });
   };
 
+  const handleTestWhisperServer = async () => {
+    setWhisperHandshake('testing');
+    setWhisperHandshake(await testLocalWhisperConnection(localASRConfig));
+  };
+
+  // Some Whisper server profiles cannot return word timings
+  const supportsWordTimestamps = (engine: TranscriptionEngine) =>
+    engine !== 'local-server' || getWhisperServerProfile(localASRConfig.profile).wordTimestamps;
+
+  // Settings that identify a transcript in the persistent cache
+  const getTranscriptSettings = (): TranscriptSettings => {
+    const engine = !isOffline ? 'gemini' : localASRConfig.enabled ? 'local-server' : 'browser';
+    const model = engine === 'gemini' ? geminiConfig.model
+        : engine === 'local-server' ? `${localASRConfig.endpoint}#${localASRConfig.model}`
+        : selectedModelId;
+    return {
+        engine,
+        model,
+        language: sourceLanguage,
+        task: transcriptionTask,
+        wordTimestamps: wordTimestamps && supportsWordTimestamps(engine),
+        segmentationMethod,
+        vadSettings: segmentationMethod === 'vad' ? vadSettings : undefined,
+        chunkOverlap,
+        glossary: activeGlossary && activeGlossary.terms.length > 0 ? activeGlossary.terms : undefined,
+        filterSettings,
+        temperature: engine === 'gemini' ? geminiConfig.temperature : undefined,
+        promptTemplate: engine === 'gemini' ? geminiConfig.transcriptionPrompt : undefined
+    };
+  };
+
+  // Configuration shared by full runs and range re-transcription; engineConfig is in the
+  // shape the engine's provider declares
+  const getTranscriptionOptions = (engine: TranscriptionEngine): TranscriptionOptions => ({
+    engineConfig: engine === 'gemini' ? geminiConfig
+        : engine === 'local-server' ? localASRConfig
+        : { modelId: selectedModelId } satisfies BrowserProviderConfig,
+    language: sourceLanguage,
+    task: transcriptionTask,
+    wordTimestamps: wordTimestamps && supportsWordTimestamps(engine),
+    filterSettings,
+    chunkOverlap,
+    glossary: activeGlossary?.terms
+  });
+
   // --- Click Interceptor for Load Video ---
   const handleLoadVideoClick = (e: React.MouseEvent) => {
      // No blocking here, user can load video anytime
@@ -336,6 +575,8 @@ export default function App() {
         setProcessingStatus('Stopped.');
         // Invalidate current running job callbacks
         processingIdRef.current += 1;
+        // Nothing is running any more; Generate resumes these from their checkpoints
+        setChunkStatus(prev => prev.map(c => c.state === 'pending' ? { ...c, state: 'skipped' } : c));
         return;
     }
 
@@ -350,12 +591,18 @@ export default function App() {
 
     const currentId = processingIdRef.current + 1;
     processingIdRef.current = currentId;
+    const transcriptSettings = getTranscriptSettings();
 
     console.log("%c[Generator] Starting new generation run.", "color: #a78bfa; font-weight: bold;");
     console.log("[Generator] Current VAD Settings:", vadSettings);
 
-    // Reset UI for processing state
+    // Reset UI for processing state (the previous transcript stays recoverable via undo)
+    setTranscriptHistory(h => recordChange(h, subtitles, 'regenerate'));
     setSubtitles([]);
+    setFilteredSegments([]);
+    setChunkStatus([]);
+    setCachedTranscriptAt(null);
+    setDetectedLanguage(null);
     setCurrentSegmentIndex(-1);
     setSelectedWord(null);
     setIsProcessing(true);
@@ -392,7 +639,12 @@ export default function App() {
              console.log("[Generator] Using cached Raw Audio Data (decoding skipped). VAD will re-run on this data.");
         }
 
-        await generateSubtitles(
+        // Full runs checkpoint each chunk so a reload or Stop can resume where it left off
+        const resumeKey = testMode ? undefined : await getJobKey(fileToUse, transcriptSettings);
+        let languageOfRun: string | undefined;
+        let failedChunks = 0;
+
+        const result = await generateSubtitles(
             fileToUse, 
             (newSegments) => {
                 // Only update if this request is still the active one
@@ -400,10 +652,8 @@ export default function App() {
                     setSubtitles(newSegments);
                 }
             }, 
-            isOffline, 
-            selectedModelId, 
-            geminiConfig.apiKey, 
-            localASRConfig, 
+            transcriptSettings.engine, 
+            getTranscriptionOptions(transcriptSettings.engine), 
             segmentationMethod, 
             vadSettings,
             testMode,
@@ -412,9 +662,36 @@ export default function App() {
                 if (processingIdRef.current === currentId) {
                     setProcessingStatus(status);
                 }
+            },
+            resumeKey,
+            (language) => {
+                languageOfRun = language;
+                if (processingIdRef.current === currentId) {
+                    setDetectedLanguage(language);
+                }
+            },
+            (filtered) => {
+                if (processingIdRef.current === currentId) {
+                    setFilteredSegments(filtered);
+                }
+            },
+            (chunks) => {
+                failedChunks = chunks.filter(c => c.state === 'failed').length;
+                if (processingIdRef.current === currentId) {
+                    setChunkStatus(chunks);
+                }
             }
         );
         
+        // Persist completed full runs so reopening the file skips transcription. Runs with
+        // failed chunks keep their checkpoints instead, so Generate resumes with just the gaps.
+        if (failedChunks > 0) {
+            console.warn(`[Generator] ${failedChunks} chunk(s) failed; transcript not cached.`);
+        } else if (resumeKey && processingIdRef.current === currentId) {
+            await saveCachedTranscript(fileToUse, transcriptSettings, result, languageOfRun);
+            clearChunkCheckpoints(resumeKey);
+        }
+
         if (processingIdRef.current === currentId) {
             if (!isOffline || localASRConfig.enabled) {
                 setIsProcessing(false);
@@ -431,6 +708,370 @@ export default function App() {
     }
   };
 
+  // --- Subtitle Export ---
+  const handleExport = (format: SubtitleExportFormat) => {
+    setShowExportMenu(false);
+    if (subtitles.length === 0) return;
+    const baseName = videoFile ? videoFile.name.replace(/\.[^.]+$/, '') : 'subtitles';
+    downloadSubtitles(subtitles, format, baseName);
+  };
+
+  // --- Subtitle Import ---
+  // Replaces the current track with one that did not come from ASR (file or embedded stream)
+  const applyImportedSubtitles = (imported: SubtitleSegment[], source: string) => {
+    if (imported.length === 0) throw new Error(`No subtitle cues found in ${source}.`);
+
+    // An imported track replaces any running transcription
+    if (isProcessing) {
+        cancelSubtitleGeneration();
+        processingIdRef.current += 1;
+        setIsProcessing(false);
+        setProcessingStatus('');
+    }
+
+    setTranscriptHistory(h => recordChange(h, subtitles, 'import'));
+    setSubtitles(imported);
+    setChunkStatus([]);
+    setCachedTranscriptAt(null);
+    setDetectedLanguage(null);
+    setCurrentSegmentIndex(-1);
+    setErrorMsg(null);
+    lockStateRef.current = null;
+    console.log(`[Import] Loaded ${imported.length} segments from ${source}`);
+  };
+
+  const handleImportSubtitles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+
+    try {
+        applyImportedSubtitles(parseSubtitles(await file.text(), file.name), `"${file.name}"`);
+    } catch (error: any) {
+        console.error("Subtitle import failed", error);
+        setErrorMsg(error.message || "Could not parse subtitle file.");
+    }
+  };
+
+  const handleProbeEmbeddedStreams = async () => {
+    if (embeddedStreams) {
+        setEmbeddedStreams(null); // Toggle menu closed
+        return;
+    }
+    if (!videoFile) return;
+
+    setIsProbingStreams(true);
+    try {
+        setEmbeddedStreams(await listSubtitleStreams(videoFile));
+    } catch (error: any) {
+        console.error("Subtitle stream probe failed", error);
+        setErrorMsg(error.message || "Could not read subtitle streams from this file.");
+    } finally {
+        setIsProbingStreams(false);
+    }
+  };
+
+  const handleExtractEmbeddedStream = async (stream: SubtitleStreamInfo) => {
+    if (!videoFile) return;
+    setEmbeddedStreams(null);
+    setIsProbingStreams(true);
+    try {
+        applyImportedSubtitles(await extractSubtitleStream(videoFile, stream), `embedded stream #${stream.streamId}`);
+    } catch (error: any) {
+        console.error("Subtitle stream extraction failed", error);
+        setErrorMsg(error.message || "Could not extract subtitle stream.");
+    } finally {
+        setIsProbingStreams(false);
+    }
+  };
+
+  // --- Bilingual Translation ---
+  const stopTranslation = () => {
+    translationIdRef.current++;
+    cancelSubtitleTranslation();
+    setIsTranslating(false);
+    setTranslationProgress(null);
+  };
+
+  const handleTranslate = async () => {
+    if (isTranslating) {
+        stopTranslation();
+        return;
+    }
+    if (subtitles.length === 0) return;
+
+    const runId = ++translationIdRef.current;
+    setTranscriptHistory(h => recordChange(h, subtitles, 'translate'));
+    // Snapshot of the source text; lines edited or replaced meanwhile keep no stale translation
+    const sourceText = new Map(subtitles.map(s => [s.id, s.text]));
+    setIsTranslating(true);
+    setTranslationProgress({ done: 0, total: subtitles.length });
+    setShowTranslation(true);
+    setErrorMsg(null);
+
+    try {
+        await translateSubtitles(
+            subtitles,
+            translationLanguage,
+            isOffline,
+            localLLMConfig,
+            geminiConfig,
+            (translations) => {
+                if (runId !== translationIdRef.current) return;
+                setSubtitles(prev => prev.map(s => {
+                    const translation = translations.get(s.id);
+                    return translation && sourceText.get(s.id) === s.text ? { ...s, translation } : s;
+                }));
+            },
+            (done, total) => {
+                if (runId === translationIdRef.current) setTranslationProgress({ done, total });
+            }
+        );
+    } catch (error: any) {
+        console.error("Translation failed", error);
+        if (runId === translationIdRef.current) setErrorMsg(error.message || "Translation failed.");
+    } finally {
+        if (runId === translationIdRef.current) {
+            setIsTranslating(false);
+            setTranslationProgress(null);
+        }
+    }
+  };
+
+  // --- Transcript Editing ---
+  const replaceTranscript = (next: SubtitleSegment[]) => {
+    setSubtitles(next);
+    setEditSelection(null);
+    // Indices shift after split / merge / delete; re-derive the active line from the playhead
+    lockStateRef.current = null;
+    const time = videoRef.current ? videoRef.current.currentTime : currentTime;
+    setCurrentSegmentIndex(next.findIndex(s => time >= s.start && time < s.end));
+  };
+
+  const applySubtitleEdit = (next: SubtitleSegment[], change: TranscriptChange) => {
+    if (next === subtitles) return;
+    setTranscriptHistory(h => recordChange(h, subtitles, change));
+    replaceTranscript(next);
+  };
+
+  const canUndo = transcriptHistory.past.length > 0 && !isProcessing;
+  const canRedo = transcriptHistory.future.length > 0 && !isProcessing;
+
+  const handleUndo = () => {
+    if (!canUndo) return;
+    const result = undoChange(transcriptHistory, subtitles);
+    if (!result) return;
+    // A running translation would re-apply its batches onto the restored lines
+    if (isTranslating) stopTranslation();
+    setTranscriptHistory(result.history);
+    replaceTranscript(result.segments);
+  };
+
+  const handleRedo = () => {
+    if (!canRedo) return;
+    const result = redoChange(transcriptHistory, subtitles);
+    if (!result) return;
+    if (isTranslating) stopTranslation();
+    setTranscriptHistory(result.history);
+    replaceTranscript(result.segments);
+  };
+
+  // Timing: "this line is spoken now" anchors; the two most recent define the correction
+  const handleMarkAnchor = (index: number) => {
+    const segment = subtitles[index];
+    if (!segment) return;
+    const anchor: TimingAnchor = { original: segment.start, target: getPlayheadTime(), text: segment.text };
+    setTimingAnchors(prev => [...prev.filter(a => a.original !== segment.start), anchor].slice(-2));
+  };
+
+  const handleApplyTimingCorrection = (correction: LinearTimingCorrection) => {
+    applySubtitleEdit(applyTimingCorrection(subtitles, correction), 'shift');
+    // Anchors refer to the old times
+    setTimingAnchors([]);
+  };
+
+  // Selected lines in edit mode, falling back to the active line
+  const getSelectedRange = (): { first: number; last: number } | null => {
+    if (editSelection && subtitles[editSelection.anchor] && subtitles[editSelection.focus]) {
+        return { first: Math.min(editSelection.anchor, editSelection.focus), last: Math.max(editSelection.anchor, editSelection.focus) };
+    }
+    return currentSegmentIndex !== -1 && subtitles[currentSegmentIndex] ? { first: currentSegmentIndex, last: currentSegmentIndex } : null;
+  };
+
+  const handleSelectForEdit = (index: number, extend: boolean) => {
+    if (extend) {
+        setEditSelection(prev => ({ anchor: prev ? prev.anchor : (currentSegmentIndex !== -1 ? currentSegmentIndex : index), focus: index }));
+        return;
+    }
+    setEditSelection({ anchor: index, focus: index });
+    jumpToSegment(index, false);
+  };
+
+  // Raw samples of the loaded file, decoded once and shared by full runs and partial re-runs
+  const getDecodedAudio = async (file: File): Promise<Float32Array> => {
+    if (audioDataCacheRef.current) return audioDataCacheRef.current;
+    const decoded = await getAudioData(file, true);
+    if (typeof decoded === 'string') throw new Error("Could not decode audio for re-transcription.");
+    if (activeFileRef.current === file) audioDataCacheRef.current = decoded;
+    return decoded;
+  };
+
+  // Re-runs ASR on the selected lines only and swaps in the result
+  const handleRetranscribeSelection = async () => {
+    if (isRetranscribing) {
+        cancelSubtitleGeneration();
+        setIsRetranscribing(false);
+        return;
+    }
+    const range = getSelectedRange();
+    const file = videoFile;
+    if (!range || !file) return;
+
+    const snapshot = subtitles;
+    const spanStart = snapshot[range.first].start;
+    const spanEnd = Math.max(...snapshot.slice(range.first, range.last + 1).map(s => s.end));
+    const engine = retranscribeEngine === 'current' ? getTranscriptSettings().engine : retranscribeEngine;
+
+    setIsRetranscribing(true);
+    setErrorMsg(null);
+    try {
+        const audio = await getDecodedAudio(file);
+        const result = await transcribeRange(
+            audio,
+            spanStart,
+            spanEnd,
+            engine,
+            getTranscriptionOptions(engine)
+        );
+        if (!result || activeFileRef.current !== file) return;
+        // Edits made while waiting would be overwritten; keep them and drop the result instead
+        if (subtitlesRef.current !== snapshot) {
+            setErrorMsg("Transcript changed during re-transcription. Result discarded.");
+            return;
+        }
+        if (result.length === 0) {
+            setErrorMsg("No speech recognized in the selected range.");
+            return;
+        }
+        applySubtitleEdit(replaceSegmentRange(snapshot, range.first, range.last, result), 'retranscribe');
+    } catch (error: any) {
+        console.error("Re-transcription failed", error);
+        setErrorMsg(error.message || "Re-transcription failed.");
+    } finally {
+        setIsRetranscribing(false);
+    }
+  };
+
+  const failedChunkCount = chunkStatus.filter(c => c.state === 'failed').length;
+
+  // Re-runs only the chunks that failed in the last run and fills their gaps in place, so
+  // edits made to the rest of the transcript are kept
+  const handleRetryFailedChunks = async () => {
+    if (isRetryingChunks) {
+        cancelSubtitleGeneration();
+        setIsRetryingChunks(false);
+        return;
+    }
+    const file = videoFile;
+    const failed = chunkStatus.filter(c => c.state === 'failed');
+    if (!file || failed.length === 0) return;
+
+    const engine = getTranscriptSettings().engine;
+    const options = getTranscriptionOptions(engine);
+    const updateChunk = (index: number, changes: Partial<ChunkStatus>) => {
+        setChunkStatus(prev => prev.map(c => c.index === index ? { ...c, ...changes } : c));
+    };
+
+    setIsRetryingChunks(true);
+    setErrorMsg(null);
+    try {
+        const audio = await getDecodedAudio(file);
+        for (const chunk of failed) {
+            updateChunk(chunk.index, { state: 'pending', error: undefined });
+            try {
+                const result = await transcribeRange(audio, chunk.start, chunk.end, engine, options);
+                if (!result || activeFileRef.current !== file) {
+                    updateChunk(chunk.index, { state: 'failed', error: chunk.error });
+                    return;
+                }
+                // The padding around the range may pick up lines the neighbouring chunks already have
+                const fill = result.filter(s => (s.start + s.end) / 2 >= chunk.start && (s.start + s.end) / 2 < chunk.end);
+                if (fill.length > 0) {
+                    const current = subtitlesRef.current;
+                    setTranscriptHistory(h => recordChange(h, current, 'retry'));
+                    replaceTranscript(reindexSegments([...current, ...fill]));
+                }
+                updateChunk(chunk.index, { state: 'done', error: undefined });
+            } catch (error: any) {
+                console.error(`Retry of chunk #${chunk.index} failed`, error);
+                updateChunk(chunk.index, { state: 'failed', error: error.message || 'Retry failed.' });
+            }
+        }
+    } catch (error: any) {
+        setErrorMsg(error.message || "Retry failed.");
+        setChunkStatus(prev => prev.map(c => c.state === 'pending' ? { ...c, state: 'failed' } : c));
+    } finally {
+        setIsRetryingChunks(false);
+    }
+  };
+
+  // Puts a line the hallucination filter removed (or shortened) back into the transcript
+  const handleRestoreFiltered = (entry: FilteredSegment) => {
+    applySubtitleEdit(reindexSegments(restoreFilteredSegment(subtitles, entry)), 'restore');
+    setFilteredSegments(prev => prev.filter(f => f !== entry));
+  };
+
+  const updateGlossary = (id: string, changes: Partial<Glossary>) => {
+    setGlossaries(prev => prev.map(g => g.id === id ? { ...g, ...changes } : g));
+  };
+
+  const handleAddGlossary = () => {
+    const glossary: Glossary = { id: `glossary-${Date.now()}`, name: `Project ${glossaries.length + 1}`, terms: [] };
+    setGlossaries(prev => [...prev, glossary]);
+    setActiveGlossaryId(glossary.id);
+  };
+
+  const handleDeleteGlossary = (id: string) => {
+    setGlossaries(prev => prev.filter(g => g.id !== id));
+    if (activeGlossaryId === id) setActiveGlossaryId('');
+  };
+
+  const updateFilterRule = (id: string, changes: Partial<SegmentFilterSettings['rules'][number]>) => {
+    setFilterSettings(p => ({ ...p, rules: p.rules.map(r => r.id === id ? { ...r, ...changes } : r) }));
+  };
+
+  const handleResegment = () => {
+    applySubtitleEdit(resegmentSentences(subtitles, resegmentSettings), 'resegment');
+  };
+
+  const handleClearTranscript = () => {
+    if (isTranslating) stopTranslation();
+    applySubtitleEdit([], 'clear');
+    setCachedTranscriptAt(null);
+  };
+
+  // Undo / Redo shortcuts. Text fields keep their native undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+        const target = e.target as HTMLElement;
+        if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+        if (!(e.ctrlKey || e.metaKey)) return;
+
+        const key = e.key.toLowerCase();
+        if (key === 'z' && !e.shiftKey) {
+            e.preventDefault();
+            handleUndo();
+        } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+            e.preventDefault();
+            handleRedo();
+        }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const getPlayheadTime = () => videoRef.current ? videoRef.current.currentTime : currentTime;
+
   // --- File Handling ---
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -444,11 +1085,19 @@ export default function App() {
     
     // Clear subtitles when loading new file
     setSubtitles([]);
+    subtitlesRef.current = []; // The cache check below must not see the previous file's track
     setCurrentSegmentIndex(-1);
     
     // Clear Audio Cache on new file
     audioDataCacheRef.current = null;
+    setEmbeddedStreams(null);
     lockStateRef.current = null;
+    stopTranslation();
+    setTranscriptHistory(EMPTY_HISTORY); // Snapshots belong to the previous media
+    setTimingAnchors([]);
+    setEditSelection(null);
+    setFilteredSegments([]);
+    setChunkStatus([]);
     
     // Set video source for the player
     const url = URL.createObjectURL(file);
@@ -456,6 +1105,22 @@ export default function App() {
     
     // Update file state
     setVideoFile(file);
+    activeFileRef.current = file;
+    setCachedTranscriptAt(null);
+    setDetectedLanguage(null);
+
+    // Restore a previous transcript of this exact media + settings, if any. Hashing a large
+    // file takes a while; an imported track or a started run in the meantime wins.
+    const loadProcessingId = processingIdRef.current;
+    loadCachedTranscript(file, getTranscriptSettings()).then(cached => {
+        const untouched = subtitlesRef.current.length === 0 && processingIdRef.current === loadProcessingId;
+        if (cached && activeFileRef.current === file && untouched) {
+            console.log(`[Transcript Cache] Restored ${cached.segments.length} segments for ${file.name}`);
+            setSubtitles(cached.segments);
+            setCachedTranscriptAt(cached.createdAt);
+            setDetectedLanguage(cached.detectedLanguage || null);
+        }
+    });
   };
 
   // --- Video Logic ---
@@ -563,7 +1228,7 @@ export default function App() {
     }
   };
 
-  const jumpToSegment = (index: number) => {
+  const jumpToSegment = (index: number, autoPlay: boolean = true) => {
     if (!videoRef.current || !subtitles[index]) return;
     const segment = subtitles[index];
     
@@ -579,12 +1244,18 @@ export default function App() {
     videoRef.current.currentTime = segment.start + 0.001;
     setCurrentTime(segment.start);
 
-    if (!isPlaying) {
+    if (autoPlay && !isPlaying) {
         videoRef.current.play();
         setIsPlaying(true);
     }
   };
 
+  // Review: jump to the next line the ASR engine was unsure about
+  const handleNextLowConfidence = () => {
+    const next = findNextLowConfidence(subtitles, currentSegmentIndex);
+    if (next !== -1) jumpToSegment(next);
+  };
+
   const handlePrevSentence = () => {
     if (currentSegmentIndex > 0) jumpToSegment(currentSegmentIndex - 1);
   };
@@ -635,7 +1306,7 @@ export default function App() {
     setLoadingWord(true);
     try {
       // Pass local config and API key to service
-      const def = await getWordDefinition(cleanWord, context, isOffline, localLLMConfig, geminiConfig.apiKey);
+      const def = await getWordDefinition(cleanWord, context, isOffline, localLLMConfig, geminiConfig);
       setSelectedWord(def);
       if (videoRef.current && isPlaying) {
         videoRef.current.pause();
@@ -673,8 +1344,27 @@ export default function App() {
   };
 
   // --- Render Helpers ---
-  const renderInteractiveSubtitle = (text: string) => {
-    return text.split(" ").map((word, i) => (
+  const renderInteractiveSubtitle = (segment: SubtitleSegment) => {
+    // Karaoke: with word timings, highlight the word being spoken at the playhead
+    if (segment.words && segment.words.length > 0) {
+      return segment.words.map((word, i) => {
+        const isActive = currentTime >= word.start && currentTime < word.end;
+        const isSpoken = currentTime >= word.end;
+        return (
+          <span 
+            key={i} 
+            onClick={(e) => { e.stopPropagation(); handleWordClick(word.text); }}
+            className={`cursor-pointer hover:text-blue-400 hover:bg-white/10 rounded px-1 transition-colors select-none inline-block ${
+              isActive ? 'text-yellow-300 bg-white/10' : isSpoken ? 'text-white' : 'text-gray-300'
+            }`}
+          >
+            {word.text}{" "}
+          </span>
+        );
+      });
+    }
+
+    return segment.text.split(" ").map((word, i) => (
       <span 
         key={i} 
         onClick={(e) => { e.stopPropagation(); handleWordClick(word); }}
@@ -751,6 +1441,91 @@ export default function App() {
                     </div>
                 </div>
 
+                {/* GLOBAL: SOURCE LANGUAGE */}
+                <div className="mb-6 border-b border-gray-800 pb-6">
+                     <h4 className="text-sm font-bold text-gray-400 uppercase tracking-wider flex items-center gap-2 pb-2 mb-3">
+                        <Languages size={14} /> Source Language
+                    </h4>
+                    <div className="relative px-1">
+                        <select 
+                            value={sourceLanguage}
+                            onChange={(e) => setSourceLanguage(e.target.value)}
+                            className="w-full bg-black border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 focus:border-blue-500 outline-none appearance-none cursor-pointer"
+                        >
+                            <option value={AUTO_DETECT_LANGUAGE}>Auto-Detect</option>
+                            {SOURCE_LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.name}</option>)}
+                        </select>
+                        <ChevronDown size={14} className="absolute right-4 top-3 text-gray-500 pointer-events-none" />
+                    </div>
+                    <p className="text-[10px] text-gray-500 mt-1 px-1">
+                        Spoken language of the video, used by all engines. English-only (.en) browser models always transcribe English.
+                    </p>
+
+                    <div className="grid grid-cols-2 gap-3 mt-4 px-1">
+                        <button
+                            onClick={() => setTranscriptionTask('transcribe')}
+                            className={`flex flex-col items-center justify-center p-3 rounded-lg border text-center transition-all ${
+                                transcriptionTask === 'transcribe' 
+                                ? 'bg-blue-900/30 border-blue-500 text-blue-300' 
+                                : 'bg-gray-800 border-gray-700 text-gray-400 hover:bg-gray-750'
+                            }`}
+                        >
+                            <span className="font-semibold text-xs mb-1">Transcribe</span>
+                            <span className="text-[10px] opacity-70">Subtitles in the spoken language.</span>
+                        </button>
+
+                        <button
+                            onClick={() => setTranscriptionTask('translate')}
+                            className={`flex flex-col items-center justify-center p-3 rounded-lg border text-center transition-all ${
+                                transcriptionTask === 'translate' 
+                                ? 'bg-blue-900/30 border-blue-500 text-blue-300' 
+                                : 'bg-gray-800 border-gray-700 text-gray-400 hover:bg-gray-750'
+                            }`}
+                        >
+                            <span className="font-semibold text-xs mb-1">Translate to English</span>
+                            <span className="text-[10px] opacity-70">English subtitles from foreign audio (multilingual models).</span>
+                        </button>
+                    </div>
+
+                    {/* Word Timestamps Toggle */}
+                    <div className={`flex items-center justify-between pt-3 border-t border-gray-800 mt-4 px-1 ${supportsWordTimestamps(getTranscriptSettings().engine) ? '' : 'opacity-40 pointer-events-none'}`}>
+                        <div>
+                            <div className="text-xs font-bold text-gray-500 uppercase">Word-Level Timestamps</div>
+                            <p className="text-[10px] text-gray-500">
+                                {supportsWordTimestamps(getTranscriptSettings().engine)
+                                    ? 'Highlights each word as it is spoken. Slower / more tokens.'
+                                    : `Not available with ${getWhisperServerProfile(localASRConfig.profile).label}.`}
+                            </p>
+                        </div>
+                        <button 
+                            onClick={() => setWordTimestamps(!wordTimestamps)}
+                            className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${wordTimestamps ? 'bg-blue-600' : 'bg-gray-700'}`}
+                        >
+                            <span className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${wordTimestamps ? 'translate-x-5' : 'translate-x-1'}`} />
+                        </button>
+                    </div>
+                </div>
+
+                {/* GLOBAL: BILINGUAL SUBTITLES */}
+                <div className="mb-6 border-b border-gray-800 pb-6">
+                     <h4 className="text-sm font-bold text-gray-400 uppercase tracking-wider flex items-center gap-2 pb-2 mb-3">
+                        <Languages size={14} /> Translation Language
+                    </h4>
+                    <div className="relative px-1">
+                        <select 
+                            value={translationLanguage}
+                            onChange={(e) => setTranslationLanguage(e.target.value)}
+                            className="w-full bg-black border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 focus:border-blue-500 outline-none appearance-none cursor-pointer"
+                        >
+                            {SOURCE_LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.name}</option>)}
+                        </select>
+                        <ChevronDown size={14} className="absolute right-4 top-3 text-gray-500 pointer-events-none" />
+                    </div>
+                    <p className="text-[10px] text-gray-500 mt-1 px-1">
+                        Your native language. The Translate button in the transcript adds a translation under every line, using Gemini when online or the Local LLM when offline.
+                    </p>
+                </div>
+
                 {/* GLOBAL: AUDIO SEGMENTATION SETTINGS */}
                 <div className="mb-8 border-b border-gray-800 pb-6">
                      <h4 className="text-sm font-bold text-gray-400 uppercase tracking-wider flex items-center gap-2 pb-2 mb-3">
@@ -781,6 +1556,24 @@ export default function App() {
                             <span className="text-[10px] opacity-70">Detects silence to split audio at sentence breaks.</span>
                         </button>
                     </div>
+
+                    {/* Chunk Overlap (both methods) */}
+                    <div className="px-1 mb-4">
+                        <div className="flex justify-between items-center mb-1">
+                            <label className="text-xs font-bold text-gray-500 uppercase">Chunk Overlap</label>
+                            <span className="text-xs text-blue-400 font-mono">{chunkOverlap > 0 ? `${chunkOverlap}s` : 'Off'}</span>
+                        </div>
+                        <input 
+                            type="range" 
+                            min="0" 
+                            max="5" 
+                            step="0.5"
+                            value={chunkOverlap}
+                            onChange={(e) => setChunkOverlap(parseFloat(e.target.value))}
+                            className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                        />
+                        <p className="text-[10px] text-gray-500 mt-1">Each chunk re-hears the end of the previous one; the two transcripts are aligned so words cut at a boundary are neither lost nor doubled. Costs a little extra processing.</p>
+                    </div>
                     
                     {/* VAD SETTINGS */}
                     {segmentationMethod === 'vad' && (
@@ -853,6 +1646,249 @@ export default function App() {
                     )}
                 </div>
 
+                {/* GLOBAL: SENTENCE RE-SEGMENTATION */}
+                <div className="mb-8 border-b border-gray-800 pb-6">
+                     <h4 className="text-sm font-bold text-gray-400 uppercase tracking-wider flex items-center gap-2 pb-2 mb-3">
+                        <WrapText size={14} /> Sentence Re-segmentation
+                    </h4>
+                    <p className="text-[10px] text-gray-500 mb-4 px-1">
+                        Used by the "Sentences" action in transcript edit mode. Splits on sentence punctuation and pauses so each line is one sentence for Sentence Loop.
+                    </p>
+                    <div className="space-y-4 px-1">
+                        <div>
+                            <div className="flex justify-between items-center mb-1">
+                                <label className="text-xs font-bold text-gray-500 uppercase">Max Duration</label>
+                                <span className="text-xs text-blue-400 font-mono">{resegmentSettings.maxDuration}s</span>
+                            </div>
+                            <input 
+                                type="range" 
+                                min="2" 
+                                max="30" 
+                                step="1"
+                                value={resegmentSettings.maxDuration}
+                                onChange={(e) => setResegmentSettings(p => ({ ...p, maxDuration: parseInt(e.target.value) }))}
+                                className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                            />
+                        </div>
+
+                        <div>
+                            <div className="flex justify-between items-center mb-1">
+                                <label className="text-xs font-bold text-gray-500 uppercase">Max Characters</label>
+                                <span className="text-xs text-blue-400 font-mono">{resegmentSettings.maxChars}</span>
+                            </div>
+                            <input 
+                                type="range" 
+                                min="20" 
+                                max="300" 
+                                step="10"
+                                value={resegmentSettings.maxChars}
+                                onChange={(e) => setResegmentSettings(p => ({ ...p, maxChars: parseInt(e.target.value) }))}
+                                className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                            />
+                            <p className="text-[10px] text-gray-500 mt-1">Longer sentences are split at the last comma or clause boundary.</p>
+                        </div>
+
+                        <div>
+                            <div className="flex justify-between items-center mb-1">
+                                <label className="text-xs font-bold text-gray-500 uppercase">Pause Break</label>
+                                <span className="text-xs text-blue-400 font-mono">{resegmentSettings.pauseThreshold}s</span>
+                            </div>
+                            <input 
+                                type="range" 
+                                min="0.3" 
+                                max="3.0" 
+                                step="0.1"
+                                value={resegmentSettings.pauseThreshold}
+                                onChange={(e) => setResegmentSettings(p => ({ ...p, pauseThreshold: parseFloat(e.target.value) }))}
+                                className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                            />
+                            <p className="text-[10px] text-gray-500 mt-1">A silence this long always starts a new line. Uses word timings when available, otherwise estimates them.</p>
+                        </div>
+                    </div>
+                </div>
+
+                {/* GLOBAL: GLOSSARY */}
+                <div className="mb-8 border-b border-gray-800 pb-6">
+                     <h4 className="text-sm font-bold text-gray-400 uppercase tracking-wider flex items-center gap-2 pb-2 mb-3">
+                        <BookMarked size={14} /> Glossary
+                    </h4>
+                    <p className="text-[10px] text-gray-500 mb-4 px-1">
+                        Names and jargon of the current project. Every engine gets them as a spelling hint, and near-miss spellings in new transcripts are corrected to match.
+                    </p>
+                    <div className="space-y-3 px-1">
+                        <div className="flex items-center gap-2">
+                            <div className="relative flex-1">
+                                <select 
+                                    value={activeGlossaryId}
+                                    onChange={(e) => setActiveGlossaryId(e.target.value)}
+                                    className="w-full appearance-none bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-xs text-gray-200 focus:border-blue-500 outline-none"
+                                >
+                                    <option value="">No glossary</option>
+                                    {glossaries.map(g => (
+                                        <option key={g.id} value={g.id}>{g.name} ({g.terms.length})</option>
+                                    ))}
+                                </select>
+                                <ChevronDown size={14} className="absolute right-3 top-2.5 text-gray-500 pointer-events-none" />
+                            </div>
+                            <button 
+                                onClick={handleAddGlossary}
+                                className="flex items-center gap-1 px-2 py-2 text-[10px] font-bold uppercase text-blue-400 hover:text-blue-300"
+                            >
+                                <Plus size={12} /> New
+                            </button>
+                        </div>
+                        {activeGlossary && (
+                            <>
+                                <div className="flex items-center gap-2">
+                                    <input 
+                                        type="text"
+                                        value={activeGlossary.name}
+                                        onChange={(e) => updateGlossary(activeGlossary.id, { name: e.target.value })}
+                                        className="flex-1 bg-black border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 focus:border-blue-500 outline-none"
+                                    />
+                                    <button 
+                                        onClick={() => handleDeleteGlossary(activeGlossary.id)}
+                                        title="Delete glossary"
+                                        className="text-gray-500 hover:text-red-400 transition-colors"
+                                    >
+                                        <Trash2 size={14} />
+                                    </button>
+                                </div>
+                                <textarea 
+                                    value={glossaryDraft}
+                                    onChange={(e) => setGlossaryDraft(e.target.value)}
+                                    onBlur={() => updateGlossary(activeGlossary.id, { terms: parseGlossaryTerms(glossaryDraft) })}
+                                    rows={5}
+                                    placeholder={"One term per line, e.g.\nKubernetes\nGrafana Loki"}
+                                    className="w-full bg-black border border-gray-700 rounded-lg px-3 py-2 text-xs text-gray-200 focus:border-blue-500 outline-none font-mono resize-y placeholder-gray-700"
+                                />
+                            </>
+                        )}
+                    </div>
+                </div>
+
+                {/* GLOBAL: HALLUCINATION FILTER */}
+                <div className="mb-8 border-b border-gray-800 pb-6">
+                    <div className="flex items-center justify-between pb-2 mb-3">
+                        <h4 className="text-sm font-bold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+                            <Filter size={14} /> Hallucination Filter
+                        </h4>
+                        <button 
+                            onClick={() => setFilterSettings(p => ({ ...p, enabled: !p.enabled }))}
+                            className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${filterSettings.enabled ? 'bg-blue-600' : 'bg-gray-700'}`}
+                        >
+                            <span className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${filterSettings.enabled ? 'translate-x-5' : 'translate-x-1'}`} />
+                        </button>
+                    </div>
+                    <div className={`space-y-4 px-1 transition-opacity duration-200 ${filterSettings.enabled ? 'opacity-100' : 'opacity-40 pointer-events-none'}`}>
+                        <p className="text-[10px] text-gray-500">
+                            Applied to every engine. Removed lines can be reviewed and restored from the transcript panel.
+                        </p>
+
+                        {/* Rules */}
+                        <div className="space-y-2">
+                            <label className="text-xs font-bold text-gray-500 uppercase">Drop Lines Matching</label>
+                            {filterSettings.rules.map(rule => {
+                                const invalid = rule.type === 'regex' && !!rule.pattern && !compileFilterRule(rule);
+                                return (
+                                    <div key={rule.id} className="flex items-center gap-2">
+                                        <input 
+                                            type="checkbox"
+                                            checked={rule.enabled}
+                                            onChange={(e) => updateFilterRule(rule.id, { enabled: e.target.checked })}
+                                            className="accent-blue-500"
+                                        />
+                                        <select 
+                                            value={rule.type}
+                                            onChange={(e) => updateFilterRule(rule.id, { type: e.target.value as 'phrase' | 'regex' })}
+                                            className="bg-black border border-gray-700 rounded px-1 py-1 text-[10px] text-gray-300 outline-none"
+                                        >
+                                            <option value="phrase">Phrase</option>
+                                            <option value="regex">Regex</option>
+                                        </select>
+                                        <input 
+                                            type="text"
+                                            value={rule.pattern}
+                                            onChange={(e) => updateFilterRule(rule.id, { pattern: e.target.value })}
+                                            title={invalid ? "Invalid regular expression" : undefined}
+                                            className={`flex-1 min-w-0 bg-black border rounded px-2 py-1 text-xs font-mono text-gray-200 outline-none ${invalid ? 'border-red-500' : 'border-gray-700 focus:border-blue-500'}`}
+                                        />
+                                        <button 
+                                            onClick={() => setFilterSettings(p => ({ ...p, rules: p.rules.filter(r => r.id !== rule.id) }))}
+                                            className="text-gray-500 hover:text-red-400 transition-colors"
+                                        >
+                                            <X size={14} />
+                                        </button>
+                                    </div>
+                                );
+                            })}
+                            <div className="flex items-center justify-between">
+                                <button 
+                                    onClick={() => setFilterSettings(p => ({ ...p, rules: [...p.rules, { id: `rule-${Date.now()}`, type: 'phrase', pattern: '', enabled: true }] }))}
+                                    className="flex items-center gap-1 text-[10px] font-bold uppercase text-blue-400 hover:text-blue-300"
+                                >
+                                    <Plus size={12} /> Add Rule
+                                </button>
+                                <button 
+                                    onClick={() => setFilterSettings(DEFAULT_FILTER_SETTINGS)}
+                                    className="text-[10px] text-gray-500 hover:text-gray-300"
+                                >
+                                    Reset to defaults
+                                </button>
+                            </div>
+                        </div>
+
+                        {/* Repetition Loops */}
+                        <div className="flex items-center justify-between pt-3 border-t border-gray-800">
+                            <div>
+                                <div className="text-xs font-bold text-gray-500 uppercase">Collapse Repetition Loops</div>
+                                <p className="text-[10px] text-gray-500">Phrases repeated more than {filterSettings.maxRepetitions}× in a row are reduced to one.</p>
+                            </div>
+                            <button 
+                                onClick={() => setFilterSettings(p => ({ ...p, collapseRepetitions: !p.collapseRepetitions }))}
+                                className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${filterSettings.collapseRepetitions ? 'bg-blue-600' : 'bg-gray-700'}`}
+                            >
+                                <span className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${filterSettings.collapseRepetitions ? 'translate-x-5' : 'translate-x-1'}`} />
+                            </button>
+                        </div>
+                        {filterSettings.collapseRepetitions && (
+                            <div>
+                                <div className="flex justify-between items-center mb-1">
+                                    <label className="text-xs font-bold text-gray-500 uppercase">Allowed Repeats</label>
+                                    <span className="text-xs text-blue-400 font-mono">{filterSettings.maxRepetitions}</span>
+                                </div>
+                                <input 
+                                    type="range" 
+                                    min="1" 
+                                    max="10" 
+                                    step="1"
+                                    value={filterSettings.maxRepetitions}
+                                    onChange={(e) => setFilterSettings(p => ({ ...p, maxRepetitions: parseInt(e.target.value) }))}
+                                    className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                                />
+                            </div>
+                        )}
+
+                        {/* No-Speech Cutoff */}
+                        <div>
+                            <div className="flex justify-between items-center mb-1">
+                                <label className="text-xs font-bold text-gray-500 uppercase">No-Speech Cutoff</label>
+                                <span className="text-xs text-blue-400 font-mono">{Math.round(filterSettings.noSpeechThreshold * 100)}%</span>
+                            </div>
+                            <input 
+                                type="range" 
+                                min="0.3" 
+                                max="1.0" 
+                                step="0.05"
+                                value={filterSettings.noSpeechThreshold}
+                                onChange={(e) => setFilterSettings(p => ({ ...p, noSpeechThreshold: parseFloat(e.target.value) }))}
+                                className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                            />
+                            <p className="text-[10px] text-gray-500 mt-1">Drops low-confidence lines the server marks as probably silence (Local Whisper Server only). 100% disables it.</p>
+                        </div>
+                    </div>
+                </div>
+
                 {/* TAB CONTENT: LOCAL */}
                 {settingsTab === 'local' && (
                     <div className="space-y-8">
@@ -880,37 +1916,51 @@ export default function App() {
                              {/* Configuration for Local Server */}
                             <div className={`transition-opacity duration-200 ${localASRConfig.enabled ? 'opacity-100' : 'opacity-40 pointer-events-none'}`}>
                                 <div className="mb-4">
-                                     <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">Server Presets</label>
+                                     <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">Server Profile</label>
                                      <div className="relative">
                                         <select 
-                                            onChange={(e) => applyASRPreset(e.target.value)}
+                                            value={localASRConfig.profile}
+                                            onChange={(e) => applyWhisperProfile(e.target.value as WhisperServerProfile)}
                                             className="w-full bg-black border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 focus:border-blue-500 outline-none appearance-none cursor-pointer"
-                                            defaultValue=""
                                         >
-                                            <option value="" disabled>Select a server type...</option>
-                                            <option value="fasterwhisper">Faster-Whisper-Server (Port 8080) - Recommended for VAD</option>
-                                            <option value="whispercpp">Whisper.cpp Server (Port 8080) - Lightweight</option>
-                                            <option value="localai">LocalAI (Port 8080) - General Purpose</option>
+                                            {WHISPER_SERVER_PROFILES.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
                                         </select>
                                         <ChevronDown size={14} className="absolute right-3 top-3 text-gray-500 pointer-events-none" />
                                     </div>
                                     <p className="text-[10px] text-blue-400 mt-2">
-                                        Tip: "Faster-Whisper-Server" includes VAD to automatically remove silence.
+                                        {getWhisperServerProfile(localASRConfig.profile).description}
                                     </p>
                                 </div>
 
                                 <div className="mb-3">
                                     <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">API Endpoint</label>
-                                    <input 
-                                        type="text" 
-                                        value={localASRConfig.endpoint}
-                                        onChange={(e) => setLocalASRConfig(p => ({...p, endpoint: e.target.value}))}
-                                        className="w-full bg-black border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 focus:border-blue-500 outline-none transition-all placeholder-gray-700"
-                                        placeholder="http://127.0.0.1:8080/v1/audio/transcriptions"
-                                    />
-                                    <p className="text-[10px] text-gray-500 mt-2">
-                                        Supports OpenAI-compatible endpoints (e.g. /v1/audio/transcriptions).
-                                    </p>
+                                    <div className="flex gap-2">
+                                        <input 
+                                            type="text" 
+                                            value={localASRConfig.endpoint}
+                                            onChange={(e) => setLocalASRConfig(p => ({...p, endpoint: e.target.value}))}
+                                            className="flex-1 bg-black border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 focus:border-blue-500 outline-none transition-all placeholder-gray-700"
+                                            placeholder={getWhisperServerProfile(localASRConfig.profile).defaultEndpoint}
+                                        />
+                                        <button 
+                                            onClick={handleTestWhisperServer}
+                                            disabled={whisperHandshake === 'testing'}
+                                            className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg hover:bg-gray-700 text-gray-300 transition-colors disabled:opacity-50"
+                                            title="Test Connection (sends a short tone)"
+                                        >
+                                            {whisperHandshake === 'testing' ? <Loader2 size={18} className="animate-spin" /> : <RefreshCw size={18} />}
+                                        </button>
+                                    </div>
+                                    {whisperHandshake && whisperHandshake !== 'testing' ? (
+                                        <p className={`text-[10px] mt-2 flex items-center gap-1 ${whisperHandshake.ok ? 'text-green-400' : 'text-red-400'}`}>
+                                            {whisperHandshake.ok ? <CheckCircle2 size={12} /> : <AlertCircle size={12} />}
+                                            {whisperHandshake.message}
+                                        </p>
+                                    ) : (
+                                        <p className="text-[10px] text-gray-500 mt-2">
+                                            Full route the audio is posted to, as expected by the selected profile.
+                                        </p>
+                                    )}
                                 </div>
                                 
                                 <div className="mb-3">
@@ -920,10 +1970,10 @@ export default function App() {
                                         value={localASRConfig.model}
                                         onChange={(e) => setLocalASRConfig(p => ({...p, model: e.target.value}))}
                                         className="w-full bg-black border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 focus:border-blue-500 outline-none transition-all placeholder-gray-700"
-                                        placeholder="whisper-large"
+                                        placeholder={getWhisperServerProfile(localASRConfig.profile).defaultModel || 'Chosen when the server starts'}
                                     />
                                     <p className="text-[10px] text-gray-500 mt-2">
-                                        Server-side model identifier (e.g. large-v3).
+                                        Server-side model identifier (e.g. large-v3). Ignored by whisper.cpp and whisperX.
                                     </p>
                                 </div>
 
@@ -938,9 +1988,9 @@ export default function App() {
                                             }}
                                             className="w-full bg-black border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 focus:border-blue-500 outline-none appearance-none cursor-pointer"
                                         >
-                                            <option value={0}>Auto Detect (Default)</option>
+                                            <option value={0}>{getWhisperServerProfile(localASRConfig.profile).timeScale ? 'From Profile (Default)' : 'Auto Detect (Default)'}</option>
                                             <option value={1.0}>Seconds (1.0s)</option>
-                                            <option value={0.01}>Centiseconds (0.01s) - Whisper.cpp / LocalAI</option>
+                                            <option value={0.01}>Centiseconds (0.01s) - LocalAI, older whisper.cpp</option>
                                             <option value={0.001}>Milliseconds (0.001s)</option>
                                         </select>
                                         <ChevronDown size={14} className="absolute right-3 top-3 text-gray-500 pointer-events-none" />
@@ -951,14 +2001,14 @@ export default function App() {
                                 </div>
 
                                 {/* HELP: DOCKER COMMAND FOR FASTER WHISPER */}
-                                {localASRConfig.endpoint.includes('8080') && localASRConfig.model === 'large-v3' && (
+                                {localASRConfig.profile === 'faster-whisper' && (
                                     <div className="mt-4 p-3 bg-gray-950 rounded border border-gray-800 text-xs font-mono text-gray-400 overflow-x-auto">
                                         <div className="flex items-center gap-2 text-gray-500 font-sans font-bold mb-2">
                                             <Terminal size={12} />
                                             <span>Run in Docker (NVIDIA GPU):</span>
                                         </div>
                                         <code className="whitespace-pre select-all text-[10px] text-green-500/80 block">
-{`docker run --gpus all -d -p 8080:8000 \\
+{`docker run --gpus all -d -p 8000:8000 \\
   -v faster_whisper_cache:/root/.cache/huggingface \\
   --name faster-whisper \\
   -e WHISPER_MODEL=large-v3 \\
@@ -968,7 +2018,7 @@ export default function App() {
   fedirz/faster-whisper-server:latest-cuda`}
                                         </code>
                                         <div className="mt-2 text-gray-600 italic">
-                                            Note: Maps host port 8080 to container 8000.
+                                            Note: The server listens on port 8000, the profile default.
                                         </div>
                                     </div>
                                 )}
@@ -1040,16 +2090,16 @@ export default function App() {
                         </div>
 
 
-                        {/* 2. OLLAMA LLM SECTION */}
+                        {/* 2. LOCAL LLM SECTION */}
                         <div className="space-y-4">
                             <h4 className="text-sm font-bold text-gray-400 uppercase tracking-wider flex items-center gap-2 pb-2 border-b border-gray-800">
-                                <Server size={14} /> Text Generation (Ollama)
+                                <Server size={14} /> Text Generation (Local LLM)
                             </h4>
 
                             {/* Enable Toggle */}
                             <div className="flex items-center justify-between p-3 bg-gray-800/30 rounded-lg border border-gray-800">
                                 <div className="flex flex-col">
-                                    <span className="font-medium text-gray-200 text-sm">Use Local Ollama</span>
+                                    <span className="font-medium text-gray-200 text-sm">Use Local LLM</span>
                                     <span className="text-[10px] text-gray-500">Use local LLM for word definitions</span>
                                 </div>
                                 <button 
@@ -1062,6 +2112,29 @@ export default function App() {
 
                             {/* Configuration Fields */}
                             <div className={`space-y-4 transition-opacity duration-200 ${localLLMConfig.enabled ? 'opacity-100' : 'opacity-40 pointer-events-none'}`}>
+                                <div>
+                                    <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">Protocol</label>
+                                    <div className="grid grid-cols-2 gap-3">
+                                        {([
+                                            { id: 'ollama', label: 'Ollama', hint: '/api/generate, /api/tags' },
+                                            { id: 'openai', label: 'OpenAI-compatible', hint: 'llama.cpp, LM Studio, vLLM' }
+                                        ] as { id: LocalLLMProtocol; label: string; hint: string }[]).map(option => (
+                                            <button
+                                                key={option.id}
+                                                onClick={() => handleLocalLLMProtocolChange(option.id)}
+                                                className={`flex flex-col items-center justify-center p-3 rounded-lg border text-center transition-all ${
+                                                    localLLMConfig.protocol === option.id
+                                                    ? 'bg-blue-900/30 border-blue-500 text-blue-300'
+                                                    : 'bg-gray-800 border-gray-700 text-gray-400 hover:bg-gray-750'
+                                                }`}
+                                            >
+                                                <span className="font-semibold text-xs mb-1">{option.label}</span>
+                                                <span className="text-[10px] opacity-70">{option.hint}</span>
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+
                                 <div>
                                     <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">Endpoint URL</label>
                                     <div className="flex gap-2">
@@ -1070,7 +2143,7 @@ export default function App() {
                                             value={localLLMConfig.endpoint}
                                             onChange={(e) => setLocalLLMConfig(p => ({...p, endpoint: e.target.value}))}
                                             className="flex-1 bg-black border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 focus:border-blue-500 outline-none transition-all placeholder-gray-700"
-                                            placeholder="http://localhost:11434"
+                                            placeholder={LOCAL_LLM_DEFAULT_ENDPOINTS[localLLMConfig.protocol]}
                                         />
                                         <button 
                                             onClick={checkLocalConnection}
@@ -1134,6 +2207,98 @@ export default function App() {
                                 Leave blank to attempt using the built-in demo key (if configured in environment).
                             </p>
                         </div>
+                        <div>
+                            <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">Key Quota</label>
+                            <div className="grid grid-cols-2 gap-3">
+                                <div>
+                                    <label className="block text-[10px] text-gray-500 mb-1">Requests / minute</label>
+                                    <input 
+                                        type="number" 
+                                        min="0"
+                                        value={geminiConfig.requestsPerMinute}
+                                        onChange={(e) => setGeminiConfig(p => ({...p, requestsPerMinute: Math.max(0, parseInt(e.target.value) || 0)}))}
+                                        className="w-full bg-black border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 focus:border-blue-500 outline-none font-mono"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-[10px] text-gray-500 mb-1">Tokens / minute</label>
+                                    <input 
+                                        type="number" 
+                                        min="0"
+                                        step="1000"
+                                        value={geminiConfig.tokensPerMinute}
+                                        onChange={(e) => setGeminiConfig(p => ({...p, tokensPerMinute: Math.max(0, parseInt(e.target.value) || 0)}))}
+                                        className="w-full bg-black border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 focus:border-blue-500 outline-none font-mono"
+                                    />
+                                </div>
+                            </div>
+                            <p className="text-[10px] text-gray-500 mt-2">
+                                Transcription stays within these limits and adjusts how many chunks run in parallel to the key's responses. Defaults match the free tier; raise them for paid keys. 0 = no limit.
+                            </p>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">Model</label>
+                            <input 
+                                type="text"
+                                list="gemini-models"
+                                value={geminiConfig.model}
+                                onChange={(e) => setGeminiConfig(p => ({...p, model: e.target.value}))}
+                                onBlur={() => { if (!geminiConfig.model.trim()) setGeminiConfig(p => ({...p, model: DEFAULT_GEMINI_MODEL})); }}
+                                className="w-full bg-black border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 focus:border-blue-500 outline-none font-mono"
+                            />
+                            <datalist id="gemini-models">
+                                {GEMINI_MODELS.map(m => <option key={m} value={m} />)}
+                            </datalist>
+                            <p className="text-[10px] text-gray-500 mt-2">
+                                Used for transcription, definitions and translation. Pro models are more accurate but slower and have lower quotas.
+                            </p>
+                        </div>
+                        <div>
+                            <div className="flex justify-between items-center mb-1">
+                                <label className="text-xs font-bold text-gray-500 uppercase tracking-wider">Transcription Temperature</label>
+                                <span className="text-xs text-blue-400 font-mono">{geminiConfig.temperature.toFixed(1)}</span>
+                            </div>
+                            <input 
+                                type="range" 
+                                min="0" 
+                                max="1" 
+                                step="0.1"
+                                value={geminiConfig.temperature}
+                                onChange={(e) => setGeminiConfig(p => ({...p, temperature: parseFloat(e.target.value)}))}
+                                className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                            />
+                            <p className="text-[10px] text-gray-500 mt-1">0 is the most literal. Raise slightly if the model gets stuck repeating itself.</p>
+                        </div>
+                        {([
+                            { key: 'transcriptionPrompt', label: 'Transcription Prompt', fallback: DEFAULT_TRANSCRIPTION_PROMPT, placeholders: TRANSCRIPTION_PLACEHOLDERS },
+                            { key: 'definitionPrompt', label: 'Definition Prompt', fallback: DEFAULT_DEFINITION_PROMPT, placeholders: DEFINITION_PLACEHOLDERS }
+                        ] as const).map(({ key, label, fallback, placeholders }) => (
+                            <div key={key}>
+                                <div className="flex justify-between items-center mb-2">
+                                    <label className="text-xs font-bold text-gray-500 uppercase tracking-wider">{label}</label>
+                                    {geminiConfig[key] && (
+                                        <button 
+                                            onClick={() => setGeminiConfig(p => ({...p, [key]: ''}))}
+                                            className="text-[10px] text-gray-500 hover:text-gray-300"
+                                        >
+                                            Reset to default
+                                        </button>
+                                    )}
+                                </div>
+                                <textarea 
+                                    value={geminiConfig[key] || fallback}
+                                    onChange={(e) => setGeminiConfig(p => ({...p, [key]: e.target.value === fallback ? '' : e.target.value}))}
+                                    rows={4}
+                                    className="w-full bg-black border border-gray-700 rounded-lg px-3 py-2 text-xs text-gray-200 focus:border-blue-500 outline-none font-mono resize-y"
+                                />
+                                <div className="flex flex-wrap items-center gap-1 mt-1">
+                                    {placeholders.map(p => (
+                                        <span key={p.name} title={p.description} className="px-1.5 py-0.5 text-[10px] font-mono text-blue-300 bg-blue-900/20 rounded">{`{${p.name}}`}</span>
+                                    ))}
+                                    <span className="text-[10px] text-gray-500 ml-1">Lines with an empty placeholder are left out. The JSON output format is always added.</span>
+                                </div>
+                            </div>
+                        ))}
                     </div>
                 )}
 
@@ -1159,6 +2324,26 @@ export default function App() {
                 <div className="flex items-center gap-2">
                     <ListVideo className="text-blue-500" />
                     <h2 className="font-bold text-lg">Transcript</h2>
+                    {detectedLanguage && (
+                        <span 
+                            className="px-1.5 py-0.5 rounded bg-gray-800 border border-gray-700 text-[10px] font-mono uppercase text-gray-400"
+                            title={`Language: ${getLanguageName(detectedLanguage)}${transcriptionTask === 'translate' ? ' (translated to English)' : ''}`}
+                        >
+                            {detectedLanguage}{transcriptionTask === 'translate' && detectedLanguage !== 'en' ? ' → en' : ''}
+                        </span>
+                    )}
+                    {(() => {
+                        const flagged = subtitles.filter(isLowConfidence).length;
+                        return flagged > 0 && (
+                            <button 
+                                onClick={handleNextLowConfidence}
+                                title="Next low-confidence line"
+                                className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-amber-900/20 border border-amber-800 text-[10px] font-mono text-amber-400 hover:bg-amber-900/40 transition-colors"
+                            >
+                                <AlertTriangle size={10} /> {flagged}
+                            </button>
+                        );
+                    })()}
                 </div>
                 
                 {/* MODE TOGGLE */}
@@ -1199,7 +2384,196 @@ export default function App() {
                     <FlaskConical size={14} />
                     <span>Test VAD</span>
                 </button>
+
+                {/* EDIT MODE */}
+                <button 
+                    onClick={() => setIsEditMode(!isEditMode)}
+                    disabled={subtitles.length === 0 || isProcessing}
+                    title={isEditMode ? "Finish Editing" : "Edit Transcript"}
+                    className={`flex items-center justify-center py-2 px-2 rounded transition-colors border disabled:opacity-50 disabled:cursor-not-allowed ${
+                        isEditMode && !isProcessing
+                        ? 'bg-blue-900/30 border-blue-500 text-blue-300' 
+                        : 'bg-gray-800 hover:bg-gray-700 text-gray-300 border-gray-700'
+                    }`}
+                >
+                    <Pencil size={14} />
+                </button>
+
+                {/* BILINGUAL TRANSLATION */}
+                <button 
+                    onClick={handleTranslate}
+                    disabled={subtitles.length === 0 || isProcessing}
+                    title={isTranslating ? "Stop Translation" : `Translate to ${getLanguageName(translationLanguage)}`}
+                    className={`flex items-center justify-center gap-1 py-2 px-2 rounded transition-colors border disabled:opacity-50 disabled:cursor-not-allowed ${
+                        isTranslating 
+                        ? 'bg-blue-900/30 border-blue-500 text-blue-300' 
+                        : 'bg-gray-800 hover:bg-gray-700 text-gray-300 border-gray-700'
+                    }`}
+                >
+                    {isTranslating ? <Loader2 size={14} className="animate-spin" /> : <Languages size={14} />}
+                    {isTranslating && translationProgress && (
+                        <span className="text-[10px] font-mono">{Math.round((translationProgress.done / translationProgress.total) * 100)}%</span>
+                    )}
+                </button>
+                {subtitles.some(s => s.translation) && (
+                    <button 
+                        onClick={() => setShowTranslation(!showTranslation)}
+                        title={showTranslation ? "Hide Translation" : "Show Translation"}
+                        className="flex items-center justify-center py-2 px-2 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded transition-colors border border-gray-700"
+                    >
+                        {showTranslation ? <Eye size={14} /> : <EyeOff size={14} />}
+                    </button>
+                )}
+
+                {/* IMPORT */}
+                <label 
+                    title="Import Subtitles (SRT, VTT, ASS, JSON)"
+                    className="flex items-center justify-center py-2 px-2 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded transition-colors border border-gray-700 cursor-pointer"
+                >
+                    <FileUp size={14} />
+                    <input type="file" accept=".srt,.vtt,.ass,.ssa,.json" onChange={handleImportSubtitles} className="hidden" />
+                </label>
+
+                {/* EMBEDDED TRACKS */}
+                <div className="relative">
+                    <button 
+                        onClick={handleProbeEmbeddedStreams}
+                        disabled={!videoFile || isProbingStreams}
+                        title="Use Embedded Subtitle Track"
+                        className="flex items-center justify-center py-2 px-2 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed text-gray-300 rounded transition-colors border border-gray-700"
+                    >
+                        {isProbingStreams ? <Loader2 size={14} className="animate-spin" /> : <Subtitles size={14} />}
+                    </button>
+                    {embeddedStreams && (
+                        <div className="absolute right-0 top-full mt-1 z-30 w-56 bg-gray-900 border border-gray-700 rounded-lg shadow-xl overflow-hidden">
+                            {embeddedStreams.length === 0 ? (
+                                <div className="px-3 py-2 text-xs text-gray-500">No subtitle streams in this file.</div>
+                            ) : embeddedStreams.map(stream => (
+                                <button
+                                    key={stream.streamId}
+                                    onClick={() => handleExtractEmbeddedStream(stream)}
+                                    disabled={!stream.isTextBased}
+                                    title={stream.isTextBased ? undefined : "Image-based subtitles cannot be converted to text"}
+                                    className="w-full text-left px-3 py-2 text-xs text-gray-300 hover:bg-gray-800 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                                >
+                                    <div className="font-medium">#{stream.index + 1} {stream.title || stream.language?.toUpperCase() || 'Unknown'}{stream.isDefault ? ' (default)' : ''}</div>
+                                    <div className="text-[10px] text-gray-500 font-mono">{stream.codec}{stream.language ? ` · ${stream.language}` : ''}</div>
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                {/* EXPORT MENU */}
+                <div className="relative">
+                    <button 
+                        onClick={() => setShowExportMenu(!showExportMenu)}
+                        disabled={subtitles.length === 0}
+                        title="Export Subtitles"
+                        className="flex items-center justify-center py-2 px-2 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed text-gray-300 rounded transition-colors border border-gray-700"
+                    >
+                        <FileDown size={14} />
+                    </button>
+                    {showExportMenu && subtitles.length > 0 && (
+                        <div className="absolute right-0 top-full mt-1 z-30 w-36 bg-gray-900 border border-gray-700 rounded-lg shadow-xl overflow-hidden">
+                            {([['srt', 'SubRip (.srt)'], ['vtt', 'WebVTT (.vtt)'], ['json', 'JSON (Lossless)']] as [SubtitleExportFormat, string][]).map(([format, label]) => (
+                                <button
+                                    key={format}
+                                    onClick={() => handleExport(format)}
+                                    className="w-full text-left px-3 py-2 text-xs text-gray-300 hover:bg-gray-800 transition-colors"
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
             </div>
+
+            {/* HISTORY TOOLBAR */}
+            {(isEditMode || canUndo || canRedo) && !isProcessing && (
+                <div className="flex items-center gap-2 mt-3">
+                    <button 
+                        onClick={handleUndo}
+                        disabled={!canUndo}
+                        title={canUndo ? `Undo ${getChangeLabel(transcriptHistory.past[transcriptHistory.past.length - 1].change)} (Ctrl+Z)` : 'Nothing to undo'}
+                        className="flex items-center gap-1 py-1 px-2 bg-gray-800 hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed text-gray-300 text-[10px] font-bold rounded transition-colors border border-gray-700"
+                    >
+                        <Undo2 size={12} /> Undo
+                    </button>
+                    <button 
+                        onClick={handleRedo}
+                        disabled={!canRedo}
+                        title={canRedo ? `Redo ${getChangeLabel(transcriptHistory.future[0].change)} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                        className="flex items-center gap-1 py-1 px-2 bg-gray-800 hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed text-gray-300 text-[10px] font-bold rounded transition-colors border border-gray-700"
+                    >
+                        <Redo2 size={12} /> Redo
+                    </button>
+                    {isEditMode && (
+                        <button 
+                            onClick={handleResegment}
+                            disabled={subtitles.length === 0}
+                            title={`Re-segment into sentences (max ${resegmentSettings.maxDuration}s / ${resegmentSettings.maxChars} chars)`}
+                            className="flex items-center gap-1 py-1 px-2 bg-gray-800 hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed text-gray-300 text-[10px] font-bold rounded transition-colors border border-gray-700"
+                        >
+                            <WrapText size={12} /> Sentences
+                        </button>
+                    )}
+                    {isEditMode && (
+                        <button 
+                            onClick={handleClearTranscript}
+                            disabled={subtitles.length === 0}
+                            title="Remove all lines (can be undone)"
+                            className="ml-auto flex items-center gap-1 py-1 px-2 bg-gray-800 hover:bg-red-900/40 hover:text-red-300 disabled:opacity-40 disabled:cursor-not-allowed text-gray-400 text-[10px] font-bold rounded transition-colors border border-gray-700"
+                        >
+                            <Trash2 size={12} /> Clear
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {/* RE-TRANSCRIBE SELECTION */}
+            {isEditMode && !isProcessing && subtitles.length > 0 && (() => {
+                const range = getSelectedRange();
+                const count = range ? range.last - range.first + 1 : 0;
+                return (
+                    <div className="flex items-center gap-2 mt-3">
+                        <button 
+                            onClick={handleRetranscribeSelection}
+                            disabled={!range && !isRetranscribing}
+                            title={isRetranscribing ? "Cancel" : "Re-transcribe the selected lines (shift+click to select a range)"}
+                            className={`flex items-center gap-1 py-1 px-2 text-[10px] font-bold rounded transition-colors border disabled:opacity-40 disabled:cursor-not-allowed ${
+                                isRetranscribing 
+                                ? 'bg-blue-900/30 border-blue-500 text-blue-300' 
+                                : 'bg-gray-800 hover:bg-gray-700 text-gray-300 border-gray-700'
+                            }`}
+                        >
+                            {isRetranscribing ? <Loader2 size={12} className="animate-spin" /> : <RotateCcw size={12} />}
+                            {isRetranscribing ? 'Re-transcribing...' : `Re-transcribe ${count > 1 ? `${count} lines` : 'line'}`}
+                        </button>
+                        <select 
+                            value={retranscribeEngine}
+                            onChange={(e) => setRetranscribeEngine(e.target.value as TranscriptionEngine | 'current')}
+                            disabled={isRetranscribing}
+                            className="flex-1 min-w-0 bg-black border border-gray-700 rounded px-1.5 py-1 text-[10px] text-gray-300 focus:border-blue-500 outline-none cursor-pointer"
+                        >
+                            <option value="current">Current Engine</option>
+                            <option value="gemini">Gemini</option>
+                            <option value="local-server">Local Whisper Server</option>
+                            <option value="browser">In-Browser ({OFFLINE_MODELS.find(m => m.id === selectedModelId)?.name.split(' ')[0]})</option>
+                        </select>
+                    </div>
+                );
+            })()}
+
+            {/* TIMING TOOL */}
+            {isEditMode && !isProcessing && subtitles.length > 0 && (
+                <TimingToolPanel 
+                    anchors={timingAnchors}
+                    onClearAnchors={() => setTimingAnchors([])}
+                    onApply={handleApplyTimingCorrection}
+                />
+            )}
         </div>
         
         <div className="flex-1 overflow-y-auto p-0 scroll-smooth relative">
@@ -1233,7 +2607,102 @@ export default function App() {
             </div>
           ) : (
              <>
-                {subtitles.map((sub, idx) => (
+                {/* Cached Transcript Notice */}
+                {cachedTranscriptAt !== null && !isProcessing && (
+                    <div className="px-4 py-2 flex items-center justify-between gap-2 text-[10px] text-gray-400 bg-gray-900/60 border-b border-gray-800">
+                        <span className="flex items-center gap-1.5">
+                            <Database size={12} className="text-purple-400" />
+                            Cached transcript from {new Date(cachedTranscriptAt).toLocaleString()}
+                        </span>
+                        <button 
+                            onClick={() => handleGenerate(false)}
+                            className="flex items-center gap-1 text-blue-400 hover:text-blue-300 font-bold uppercase"
+                        >
+                            <RefreshCw size={10} /> Regenerate
+                        </button>
+                    </div>
+                )}
+
+                {/* Failed Chunks Notice */}
+                {failedChunkCount > 0 && !isProcessing && (
+                    <div className="px-4 py-2 flex items-center justify-between gap-2 text-[10px] text-red-300 bg-red-900/20 border-b border-gray-800">
+                        <span 
+                            className="flex items-center gap-1.5 min-w-0"
+                            title={chunkStatus.filter(c => c.state === 'failed').map(c => `${formatTime(c.start)}-${formatTime(c.end)}: ${c.error || 'failed'}`).join('\n')}
+                        >
+                            <AlertCircle size={12} className="text-red-400 flex-shrink-0" />
+                            <span className="truncate">
+                                {failedChunkCount} chunk{failedChunkCount === 1 ? '' : 's'} failed, transcript has gaps
+                            </span>
+                        </span>
+                        <button 
+                            onClick={handleRetryFailedChunks}
+                            className="flex items-center gap-1 text-blue-400 hover:text-blue-300 font-bold uppercase flex-shrink-0"
+                        >
+                            {isRetryingChunks ? <Loader2 size={10} className="animate-spin" /> : <RefreshCw size={10} />}
+                            {isRetryingChunks ? 'Cancel' : 'Retry'}
+                        </button>
+                    </div>
+                )}
+
+                {/* Filtered Segments Review */}
+                {filteredSegments.length > 0 && (
+                    <div className="border-b border-gray-800 bg-gray-900/60">
+                        <button 
+                            onClick={() => setShowFilteredReview(!showFilteredReview)}
+                            className="w-full px-4 py-2 flex items-center justify-between gap-2 text-[10px] text-gray-400 hover:text-gray-200 transition-colors"
+                        >
+                            <span className="flex items-center gap-1.5">
+                                <Filter size={12} className="text-amber-400" />
+                                {filteredSegments.length} line{filteredSegments.length === 1 ? '' : 's'} filtered as hallucination or repetition
+                            </span>
+                            <span className="font-bold uppercase text-blue-400">{showFilteredReview ? 'Hide' : 'Review'}</span>
+                        </button>
+                        {showFilteredReview && (
+                            <div className="max-h-48 overflow-y-auto">
+                                {filteredSegments.map((entry, i) => (
+                                    <div key={i} className="px-4 py-2 flex items-start gap-2 border-t border-gray-800 text-xs">
+                                        <div className="flex-1 min-w-0">
+                                            <div className="flex items-center gap-2 text-[10px] text-gray-500">
+                                                <span className="font-mono">{formatTime(entry.segment.start)}</span>
+                                                <span className="text-amber-500/80 truncate">{entry.reason}</span>
+                                            </div>
+                                            <p className="text-gray-400 break-words">{entry.segment.text}</p>
+                                        </div>
+                                        <button 
+                                            onClick={() => handleRestoreFiltered(entry)}
+                                            disabled={isProcessing}
+                                            title={entry.collapsed ? "Restore the full line" : "Put this line back"}
+                                            className="flex-shrink-0 text-[10px] font-bold uppercase text-blue-400 hover:text-blue-300 disabled:opacity-40 disabled:cursor-not-allowed"
+                                        >
+                                            Restore
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {isEditMode && !isProcessing ? subtitles.map((sub, idx) => (
+                    <SubtitleEditRow
+                        key={sub.id}
+                        segment={sub}
+                        index={idx}
+                        isActive={currentSegmentIndex === idx}
+                        isSelected={!!editSelection && editSelection.anchor !== editSelection.focus && idx >= Math.min(editSelection.anchor, editSelection.focus) && idx <= Math.max(editSelection.anchor, editSelection.focus)}
+                        hasNext={idx < subtitles.length - 1}
+                        confidenceIssues={getConfidenceIssues(sub)}
+                        getPlayheadTime={getPlayheadTime}
+                        onSelect={handleSelectForEdit}
+                        onChangeText={(i, text) => applySubtitleEdit(updateSegmentText(subtitles, i, text), 'edit')}
+                        onSplit={(i, at) => applySubtitleEdit(splitSegment(subtitles, i, at), 'split')}
+                        onMergeNext={(i) => applySubtitleEdit(mergeWithNext(subtitles, i), 'merge')}
+                        onRetime={(i, times) => applySubtitleEdit(retimeSegment(subtitles, i, times), 'shift')}
+                        onDelete={(i) => applySubtitleEdit(deleteSegment(subtitles, i), 'delete')}
+                        onMarkAnchor={handleMarkAnchor}
+                    />
+                )) : subtitles.map((sub, idx) => (
                 <div
                     key={sub.id}
                     onClick={() => jumpToSegment(idx)}
@@ -1245,10 +2714,18 @@ export default function App() {
                 >
                     <div className="flex justify-between mb-1">
                     <span className="text-xs text-gray-500 font-mono">{formatTime(sub.start)}</span>
+                    {isLowConfidence(sub) && (
+                        <span title={getConfidenceIssues(sub).join('\n')}>
+                            <AlertTriangle size={12} className="text-amber-400" />
+                        </span>
+                    )}
                     </div>
                     <p className={`text-sm leading-relaxed ${currentSegmentIndex === idx ? 'text-white' : 'text-gray-400'}`}>
                     {sub.text}
                     </p>
+                    {showTranslation && sub.translation && (
+                        <p className="text-xs leading-relaxed text-gray-500 mt-1">{sub.translation}</p>
+                    )}
                 </div>
                 ))}
                 
@@ -1287,7 +2764,7 @@ export default function App() {
             >
                 <Upload size={16} />
                 <span>Load Video</span>
-                <input type="file" accept=".mp4" onChange={handleFileChange} className="hidden" />
+                <input type="file" accept=".mp4,.mkv,.mov,.m4v,.webm" onChange={handleFileChange} className="hidden" />
             </label>
 
             <div className="w-px h-6 bg-gray-800 mx-1"></div>
@@ -1342,7 +2819,7 @@ export default function App() {
                   <p className="text-xs text-gray-500 mt-2">
                      {isOffline ? "Ready for Offline Mode" : "Ready for Online Mode"}
                   </p>
-                  <input type="file" accept=".mp4" onChange={handleFileChange} className="hidden" />
+                  <input type="file" accept=".mp4,.mkv,.mov,.m4v,.webm" onChange={handleFileChange} className="hidden" />
               </label>
             )}
           </div>
@@ -1381,10 +2858,15 @@ export default function App() {
              
              {/* Active Subtitle Overlay (if any) */}
              {currentSegmentIndex !== -1 && subtitles[currentSegmentIndex] && (
-                 <div className="animate-in fade-in slide-in-from-bottom-2 duration-200 w-full flex justify-center">
+                 <div className="animate-in fade-in slide-in-from-bottom-2 duration-200 w-full flex flex-col items-center">
                      <p className="text-xl md:text-2xl font-medium text-white leading-relaxed max-w-3xl text-center">
-                         {renderInteractiveSubtitle(subtitles[currentSegmentIndex].text)}
+                         {renderInteractiveSubtitle(subtitles[currentSegmentIndex])}
                      </p>
+                     {showTranslation && subtitles[currentSegmentIndex].translation && (
+                         <p className="text-base md:text-lg text-gray-400 leading-relaxed max-w-3xl text-center mt-2">
+                             {subtitles[currentSegmentIndex].translation}
+                         </p>
+                     )}
                  </div>
              )}
           </div>
@@ -1428,6 +2910,7 @@ export default function App() {
            onVolumeChange={handleVolumeChange}
            isMuted={isMuted}
            onToggleMute={toggleMute}
+           chunkStatus={chunkStatus}
         />
       </div>
 
@@ -1,8 +1,35 @@
+export interface SubtitleWord {
+  start: number; // seconds
+  end: number;   // seconds
+  text: string;
+}
+
+// Decoder statistics reported by Whisper backends (verbose_json)
+export interface SegmentConfidence {
+  avgLogprob?: number;       // Mean token log probability (0 = certain)
+  noSpeechProb?: number;     // Probability that the audio was not speech
+  compressionRatio?: number; // gzip ratio of the text; high values mean repetition loops
+}
+
 export interface SubtitleSegment {
   id: number;
   start: number; // seconds
   end: number;   // seconds
   text: string;
+  words?: SubtitleWord[]; // Word-level timings when the engine provides them
+  translation?: string;   // Line in the learner's native language (bilingual tracks)
+  confidence?: SegmentConfidence; // Only from engines that report it
+}
+
+// Subtitle stream embedded in a media container (MKV, MP4, ...)
+export interface SubtitleStreamInfo {
+  index: number;       // Position among subtitle streams (ffmpeg "0:s:<index>")
+  streamId: string;    // Absolute stream specifier as printed by ffmpeg (e.g. "0:2")
+  codec: string;       // subrip, mov_text, ass, webvtt, hdmv_pgs_subtitle...
+  language?: string;   // ISO 639-2 tag if present (e.g. "eng")
+  title?: string;
+  isDefault: boolean;
+  isTextBased: boolean; // Bitmap formats (PGS, VobSub) cannot be converted to text
 }
 
 export interface WordDefinition {
@@ -24,21 +51,39 @@ export enum PlaybackMode {
   LOOP_SENTENCE = 'LOOP_SENTENCE'
 }
 
+// 'ollama' = Ollama's native API; 'openai' = /v1/chat/completions (llama.cpp server, LM Studio, vLLM)
+export type LocalLLMProtocol = 'ollama' | 'openai';
+
 export interface LocalLLMConfig {
   enabled: boolean;
+  protocol: LocalLLMProtocol;
   endpoint: string;
   model: string;
 }
 
+// Request/response dialect of a local Whisper server (services/whisperServerProfiles.ts)
+export type WhisperServerProfile = 'faster-whisper' | 'whisper-cpp' | 'whisperx' | 'openai' | 'custom';
+
 export interface LocalASRConfig {
   enabled: boolean;
+  profile: WhisperServerProfile;
   endpoint: string;
   model: string;
-  timeScale?: number; // Optional: 1.0 (sec), 0.01 (cs), 0.001 (ms). If undefined, auto-detect.
+  timeScale?: number; // Optional: 1.0 (sec), 0.01 (cs), 0.001 (ms). If undefined, the profile's unit or auto-detect.
 }
 
-export interface GeminiConfig {
+// Per-minute quota of an API key; 0 = no limit
+export interface RateLimitBudget {
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+}
+
+export interface GeminiConfig extends RateLimitBudget {
   apiKey: string;
+  model: string;
+  temperature: number;         // Transcription only; definitions and translations use the model default
+  transcriptionPrompt: string; // Template (see utils/promptTemplates); empty = built-in
+  definitionPrompt: string;
 }
 
 export type SegmentationMethod = 'fixed' | 'vad';
@@ -50,6 +95,95 @@ export interface VADSettings {
   filteringEnabled: boolean; // Enable/Disable band-pass filter
 }
 
+// Limits for re-segmenting a transcript into one sentence per segment
+export interface ResegmentSettings {
+  maxDuration: number; // Seconds; longer sentences are split at the best clause boundary
+  maxChars: number;
+  pauseThreshold: number; // Seconds of silence between words that always ends a segment
+}
+
+// Names and jargon of one project (course, channel, conference) the engines should spell exactly
+export interface Glossary {
+  id: string;
+  name: string;
+  terms: string[];
+}
+
+// --- Hallucination / repetition filtering (applied to every engine's output) ---
+export interface SegmentFilterRule {
+  id: string;
+  type: 'phrase' | 'regex'; // phrase = whole-line match ignoring case and punctuation
+  pattern: string;
+  enabled: boolean;
+}
+
+export interface SegmentFilterSettings {
+  enabled: boolean;
+  rules: SegmentFilterRule[];
+  collapseRepetitions: boolean; // Collapse "n-gram n-gram n-gram ..." decoding loops
+  maxRepetitions: number;       // Consecutive repeats allowed before collapsing
+  noSpeechThreshold: number;    // Drop lines whose no-speech probability exceeds this (0-1)
+}
+
+// A segment removed or altered by the filter pipeline, kept for review
+export interface FilteredSegment {
+  segment: SubtitleSegment; // As produced by the engine
+  reason: string;
+  collapsed: boolean;       // true = kept with repetitions removed, false = dropped
+}
+
+// 'translate' produces English subtitles regardless of the spoken language
+export type TranscriptionTask = 'transcribe' | 'translate';
+
+// Built-in engines; additional providers may register under their own id
+export type TranscriptionEngine = 'gemini' | 'local-server' | 'browser' | (string & {});
+
+// Everything that influences the transcript of a given file. Two runs with equal
+// settings on the same media are expected to produce interchangeable results.
+export interface TranscriptSettings {
+  engine: TranscriptionEngine;
+  model: string;
+  language: string; // ISO 639-1 code or 'auto'
+  task: TranscriptionTask;
+  wordTimestamps: boolean;
+  segmentationMethod: SegmentationMethod;
+  vadSettings?: VADSettings; // Only relevant for 'vad' segmentation
+  chunkOverlap?: number;     // Seconds; 0 or missing = chunks do not overlap
+  glossary?: string[];       // Terms of the active glossary
+  filterSettings?: SegmentFilterSettings; // Filters change which segments are stored
+  temperature?: number;      // Gemini only
+  promptTemplate?: string;   // Gemini only
+}
+
+export interface CachedTranscript {
+  key: string;          // fingerprint + settings key
+  fingerprint: string;
+  fileName: string;
+  settings: TranscriptSettings;
+  segments: SubtitleSegment[];
+  detectedLanguage?: string; // Reported by the engine when language was 'auto'
+  createdAt: number;
+}
+
+// Progress of one audio chunk within a transcription run
+export interface ChunkStatus {
+  index: number;
+  start: number; // seconds
+  end: number;   // seconds
+  state: 'pending' | 'done' | 'failed' | 'skipped'; // skipped = run stopped before the chunk finished
+  error?: string; // Reason reported by the engine for failed chunks
+}
+
+// Result of one audio chunk of an unfinished job, persisted so a restart can skip it
+export interface ChunkCheckpoint {
+  key: string;          // jobKey#chunkStart-chunkEnd
+  jobKey: string;       // fingerprint + settings key
+  chunkStart: number;   // samples
+  chunkEnd: number;     // samples
+  segments: SubtitleSegment[];
+  createdAt: number;
+}
+
 // Worker Types
 export interface WorkerMessage {
   type: 'load' | 'generate' | 'ready' | 'update' | 'complete' | 'error';
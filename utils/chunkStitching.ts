@@ -0,0 +1,129 @@
+import { SubtitleSegment, SubtitleWord } from '../types';
+import { WordToken, toWordTokens } from './sentenceSegmentation';
+
+// Joins the transcripts of consecutive audio chunks. When chunks overlap, both sides
+// transcribe the overlap window: their words are aligned by text (and roughly by time)
+// and the seam is placed in the middle of the run they agree on, so each side keeps the
+// part it heard with context on both sides. Without agreement the seam falls in the
+// middle of the window.
+
+export interface ChunkTranscript {
+    audioStart: number; // Seconds; before the previous chunk's audioEnd when chunks overlap
+    audioEnd: number;
+    segments?: SubtitleSegment[]; // undefined while the chunk is not transcribed yet
+}
+
+// Words this close to the overlap window still take part in the alignment
+const WINDOW_SLACK = 0.5;
+// Equal words further apart in time than this are a coincidence, not the same speech
+const MAX_ALIGN_SHIFT = 1.5;
+// Shortest run of agreeing words trusted as an alignment
+const MIN_ALIGN_WORDS = 2;
+
+const normalizeWord = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+
+// Longest run of consecutive words both sides agree on, as [leftIndex, rightIndex, length]
+const findAlignment = (left: WordToken[], right: WordToken[]): [number, number, number] | null => {
+    const a = left.map(t => normalizeWord(t.text));
+    const b = right.map(t => normalizeWord(t.text));
+    let best: [number, number, number] | null = null;
+    // runs[j] = length of the agreeing run ending at left[i - 1], right[j - 1]
+    let previous = new Array<number>(b.length + 1).fill(0);
+    for (let i = 1; i <= a.length; i++) {
+        const runs = new Array<number>(b.length + 1).fill(0);
+        for (let j = 1; j <= b.length; j++) {
+            if (!a[i - 1] || a[i - 1] !== b[j - 1]) continue;
+            if (Math.abs(left[i - 1].start - right[j - 1].start) > MAX_ALIGN_SHIFT) continue;
+            runs[j] = previous[j - 1] + 1;
+            if (!best || runs[j] > best[2]) best = [i - runs[j], j - runs[j], runs[j]];
+        }
+        previous = runs;
+    }
+    return best && best[2] >= MIN_ALIGN_WORDS ? best : null;
+};
+
+// Segments that lost words at the seam are trimmed to the words they keep
+const rebuildSegments = (segments: SubtitleSegment[], tokens: WordToken[], keep: (index: number) => boolean): SubtitleSegment[] => {
+    const totals = new Map<number, number>();
+    const kept = new Map<number, WordToken[]>();
+    tokens.forEach((token, i) => {
+        totals.set(token.source, (totals.get(token.source) || 0) + 1);
+        if (keep(i)) kept.set(token.source, [...(kept.get(token.source) || []), token]);
+    });
+
+    return segments.flatMap((segment, source) => {
+        const words = kept.get(source);
+        if (!words) return [];
+        if (words.length === totals.get(source)) return [segment];
+
+        const trimmed: SubtitleSegment = {
+            ...segment,
+            start: words[0].start,
+            end: Math.max(words[words.length - 1].end, words[0].start + 0.1),
+            text: words.map(t => t.text).join(' ')
+        };
+        if (segment.words) trimmed.words = words.map<SubtitleWord>(t => ({ start: t.start, end: t.end, text: t.text }));
+        return [trimmed];
+    });
+};
+
+const stitchSeam = (left: SubtitleSegment[], right: SubtitleSegment[], windowStart: number, windowEnd: number): SubtitleSegment[] => {
+    // Only segments reaching into the overlap window are touched
+    const tailStart = left.findIndex(s => s.end > windowStart - WINDOW_SLACK);
+    if (tailStart === -1) return [...left, ...right];
+    const headEnd = right.findIndex(s => s.start >= windowEnd + WINDOW_SLACK);
+    const tail = left.slice(tailStart);
+    const head = headEnd === -1 ? right : right.slice(0, headEnd);
+
+    const leftTokens = toWordTokens(tail);
+    const rightTokens = toWordTokens(head);
+    const inWindow = (t: WordToken) => t.end > windowStart - WINDOW_SLACK && t.start < windowEnd + WINDOW_SLACK;
+    const leftWindow = leftTokens.map((t, i) => inWindow(t) ? i : -1).filter(i => i !== -1);
+    const rightWindow = rightTokens.map((t, i) => inWindow(t) ? i : -1).filter(i => i !== -1);
+
+    let keepLeft: (index: number) => boolean;
+    let keepRight: (index: number) => boolean;
+    const alignment = findAlignment(leftWindow.map(i => leftTokens[i]), rightWindow.map(i => rightTokens[i]));
+    if (alignment) {
+        const [l, r, length] = alignment;
+        const half = Math.floor(length / 2);
+        const leftCut = leftWindow[l + half];   // First word taken from the right side instead
+        const rightCut = rightWindow[r + half];
+        keepLeft = i => i < leftCut;
+        keepRight = i => i >= rightCut;
+    } else {
+        // A word belongs to the side of the middle it starts on
+        const middle = (windowStart + windowEnd) / 2;
+        keepLeft = i => leftTokens[i].start < middle;
+        keepRight = i => rightTokens[i].start >= middle;
+    }
+
+    return [
+        ...left.slice(0, tailStart),
+        ...rebuildSegments(tail, leftTokens, keepLeft),
+        ...rebuildSegments(head, rightTokens, keepRight),
+        ...(headEnd === -1 ? [] : right.slice(headEnd))
+    ];
+};
+
+// Concatenates chunk transcripts in order, stitching each overlapping seam. Chunks
+// without a result yet are skipped; their neighbours are then joined as they are.
+export const stitchChunks = (chunks: ChunkTranscript[]): SubtitleSegment[] => {
+    let result: SubtitleSegment[] = [];
+    let previous: ChunkTranscript | null = null;
+
+    for (const chunk of chunks) {
+        if (!chunk.segments) {
+            previous = null;
+            continue;
+        }
+        const segments = [...chunk.segments].sort((a, b) => a.start - b.start);
+        const overlaps = previous !== null && chunk.audioStart < previous.audioEnd;
+        result = overlaps && result.length > 0 && segments.length > 0
+            ? stitchSeam(result, segments, chunk.audioStart, previous!.audioEnd)
+            : [...result, ...segments];
+        previous = chunk;
+    }
+
+    return result;
+};
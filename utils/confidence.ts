@@ -0,0 +1,52 @@
+import { SegmentConfidence, SubtitleSegment } from '../types';
+
+// Flags segments whose decoder statistics suggest the text may be wrong. Thresholds follow
+// the fallback limits Whisper itself uses when deciding to re-decode a window.
+export const CONFIDENCE_THRESHOLDS = {
+    minAvgLogprob: -1.0,
+    maxNoSpeechProb: 0.6,
+    maxCompressionRatio: 2.4
+};
+
+// Human-readable reasons a segment is suspicious; empty when it looks fine or has no metrics
+export const getConfidenceIssues = (segment: SubtitleSegment): string[] => {
+    const c = segment.confidence;
+    if (!c) return [];
+    const issues: string[] = [];
+    if (c.avgLogprob !== undefined && c.avgLogprob < CONFIDENCE_THRESHOLDS.minAvgLogprob) {
+        issues.push(`Low confidence (avg logprob ${c.avgLogprob.toFixed(2)})`);
+    }
+    if (c.noSpeechProb !== undefined && c.noSpeechProb > CONFIDENCE_THRESHOLDS.maxNoSpeechProb) {
+        issues.push(`Possibly no speech (${Math.round(c.noSpeechProb * 100)}%)`);
+    }
+    if (c.compressionRatio !== undefined && c.compressionRatio > CONFIDENCE_THRESHOLDS.maxCompressionRatio) {
+        issues.push(`Repetitive text (compression ratio ${c.compressionRatio.toFixed(1)})`);
+    }
+    return issues;
+};
+
+export const isLowConfidence = (segment: SubtitleSegment): boolean => getConfidenceIssues(segment).length > 0;
+
+// Next flagged segment after fromIndex, wrapping around; -1 if there is none
+export const findNextLowConfidence = (segments: SubtitleSegment[], fromIndex: number): number => {
+    for (let step = 1; step <= segments.length; step++) {
+        const index = (fromIndex + step + segments.length) % segments.length;
+        if (isLowConfidence(segments[index])) return index;
+    }
+    return -1;
+};
+
+// Combined statistics of segments joined into one: keeps the worst value of each metric
+export const mergeConfidence = (list: (SegmentConfidence | undefined)[]): SegmentConfidence | undefined => {
+    const present = list.filter((c): c is SegmentConfidence => !!c);
+    if (present.length === 0) return undefined;
+    const pick = (values: (number | undefined)[], worst: (...v: number[]) => number) => {
+        const defined = values.filter((v): v is number => v !== undefined);
+        return defined.length > 0 ? worst(...defined) : undefined;
+    };
+    return {
+        avgLogprob: pick(present.map(c => c.avgLogprob), Math.min),
+        noSpeechProb: pick(present.map(c => c.noSpeechProb), Math.max),
+        compressionRatio: pick(present.map(c => c.compressionRatio), Math.max)
+    };
+};
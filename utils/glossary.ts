@@ -0,0 +1,107 @@
+import { SubtitleSegment } from '../types';
+
+// Project glossaries: names and jargon the engines should spell exactly. Terms are handed to
+// every engine as a hint and afterwards used to fix near-miss spellings in the transcript.
+
+// Whisper reads at most 224 prompt tokens; stay well below that
+const MAX_PROMPT_CHARS = 600;
+// Shorter terms collide with ordinary words too easily to be corrected fuzzily ("reach" -> "React")
+const MIN_FUZZY_LENGTH = 6;
+
+// One term per line (commas also separate), duplicates removed
+export const parseGlossaryTerms = (text: string): string[] => {
+    const seen = new Set<string>();
+    return text.split(/[\n,]/).map(t => t.trim()).filter(t => {
+        const key = t.toLowerCase();
+        if (!t || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+};
+
+// Initial prompt for Whisper. It conditions on the spelling of previous text, so a plain list works.
+export const buildWhisperPrompt = (terms: string[]): string => {
+    let prompt = '';
+    for (const term of terms) {
+        const next = prompt ? `${prompt}, ${term}` : term;
+        if (next.length > MAX_PROMPT_CHARS) break;
+        prompt = next;
+    }
+    return prompt ? `Glossary: ${prompt}.` : '';
+};
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+const editDistance = (a: string, b: string): number => {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+// Roughly one typo per five letters; exact matches (ignoring case) are always accepted.
+// Misheard terms keep their first letter, so a different one means a different word.
+const isNearMiss = (candidate: string, term: string): boolean => {
+    if (candidate === term) return true;
+    if (term.length < MIN_FUZZY_LENGTH || candidate[0] !== term[0]) return false;
+    if (Math.abs(candidate.length - term.length) > 2) return false;
+    return editDistance(candidate, term) <= Math.floor(term.length / 5);
+};
+
+interface GlossaryEntry {
+    term: string;
+    words: string[];
+    key: string; // Normalized term without spaces
+}
+
+// Replaces words (or runs of words) that are near-misses of a glossary term with the term
+// itself, keeping surrounding punctuation. Word timings follow the replaced words.
+export const applyGlossaryCorrections = (segments: SubtitleSegment[], terms: string[]): SubtitleSegment[] => {
+    const entries: GlossaryEntry[] = terms
+        .map(term => ({ term, words: term.split(/\s+/), key: normalize(term) }))
+        .filter(e => e.key.length > 0)
+        // Longer terms first so "New York Times" wins over "New York"
+        .sort((a, b) => b.words.length - a.words.length || b.key.length - a.key.length);
+    if (entries.length === 0) return segments;
+
+    return segments.map(segment => {
+        const tokens = segment.text.split(/\s+/).filter(Boolean);
+        let changed = false;
+
+        for (let i = 0; i < tokens.length; i++) {
+            for (const entry of entries) {
+                const n = entry.words.length;
+                if (i + n > tokens.length) continue;
+                const window = tokens.slice(i, i + n);
+                if (!isNearMiss(normalize(window.join('')), entry.key)) continue;
+
+                const replacement = entry.words.map((w, k) => {
+                    // Keep the punctuation around the matched words ("(kubernets," -> "(Kubernetes,")
+                    const [, lead, , trail] = window[k].match(/^([^\p{L}\p{N}]*)(.*?)([^\p{L}\p{N}]*)$/u)!;
+                    return `${k === 0 ? lead : ''}${w}${k === n - 1 ? trail : ''}`;
+                });
+                if (replacement.join(' ') !== window.join(' ')) {
+                    tokens.splice(i, n, ...replacement);
+                    changed = true;
+                }
+                i += n - 1;
+                break;
+            }
+        }
+
+        if (!changed) return segment;
+        const corrected: SubtitleSegment = { ...segment, text: tokens.join(' ') };
+        // Replacements keep the word count, so word timings that lined up with the text still do;
+        // others would keep showing the old spelling in the word-level views
+        if (segment.words) {
+            if (segment.words.length === tokens.length) corrected.words = segment.words.map((w, k) => ({ ...w, text: tokens[k] }));
+            else delete corrected.words;
+        }
+        return corrected;
+    });
+};
@@ -0,0 +1,65 @@
+// Minimal promise wrapper around IndexedDB shared by the persistence services.
+
+const DB_NAME = 'lingoplayer';
+const DB_VERSION = 2;
+
+// Every object store uses an in-line "key" property as its primary key
+export const STORES = {
+    transcripts: 'transcripts',
+    checkpoints: 'checkpoints'
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                for (const name of Object.values(STORES)) {
+                    if (!db.objectStoreNames.contains(name)) {
+                        db.createObjectStore(name, { keyPath: 'key' });
+                    }
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const runRequest = async <T>(store: StoreName, mode: IDBTransactionMode, fn: (s: IDBObjectStore) => IDBRequest): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(store, mode);
+        const request = fn(tx.objectStore(store));
+        tx.oncomplete = () => resolve(request.result as T);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
+
+export const idbGet = <T>(store: StoreName, key: string): Promise<T | undefined> =>
+    runRequest<T | undefined>(store, 'readonly', s => s.get(key));
+
+export const idbPut = <T extends { key: string }>(store: StoreName, value: T): Promise<void> =>
+    runRequest<void>(store, 'readwrite', s => s.put(value)).then(() => undefined);
+
+export const idbDelete = (store: StoreName, key: string): Promise<void> =>
+    runRequest<void>(store, 'readwrite', s => s.delete(key)).then(() => undefined);
+
+// Keys sharing a prefix form a group (e.g. all checkpoints of one job)
+const prefixRange = (prefix: string) => IDBKeyRange.bound(prefix, prefix + '\uffff');
+
+export const idbGetAllByPrefix = <T>(store: StoreName, prefix: string): Promise<T[]> =>
+    runRequest<T[]>(store, 'readonly', s => s.getAll(prefixRange(prefix)));
+
+export const idbDeleteByPrefix = (store: StoreName, prefix: string): Promise<void> =>
+    runRequest<void>(store, 'readwrite', s => s.delete(prefixRange(prefix))).then(() => undefined);
@@ -0,0 +1,34 @@
+// Source languages offered for transcription. Codes are ISO 639-1, which Whisper
+// (transformers.js and OpenAI-style servers) and Gemini all understand.
+export const AUTO_DETECT_LANGUAGE = 'auto';
+
+export const SOURCE_LANGUAGES = [
+    { code: 'en', name: 'English' },
+    { code: 'es', name: 'Spanish' },
+    { code: 'fr', name: 'French' },
+    { code: 'de', name: 'German' },
+    { code: 'it', name: 'Italian' },
+    { code: 'pt', name: 'Portuguese' },
+    { code: 'nl', name: 'Dutch' },
+    { code: 'ru', name: 'Russian' },
+    { code: 'pl', name: 'Polish' },
+    { code: 'tr', name: 'Turkish' },
+    { code: 'ar', name: 'Arabic' },
+    { code: 'hi', name: 'Hindi' },
+    { code: 'ja', name: 'Japanese' },
+    { code: 'ko', name: 'Korean' },
+    { code: 'zh', name: 'Chinese' },
+];
+
+export const getLanguageName = (code: string): string => {
+    return SOURCE_LANGUAGES.find(l => l.code === code)?.name || code;
+};
+
+// Whisper backends report either a code ("es") or a lowercase name ("spanish")
+export const normalizeLanguageCode = (value: string | null | undefined): string | undefined => {
+    if (!value) return undefined;
+    const v = value.trim().toLowerCase();
+    const byName = SOURCE_LANGUAGES.find(l => l.name.toLowerCase() === v);
+    if (byName) return byName.code;
+    return v.length <= 3 ? v : undefined;
+};
@@ -0,0 +1,141 @@
+import { WordDefinition } from '../types';
+
+// Reading JSON written by language models. Small local models wrap it in markdown fences,
+// talk around it, leave trailing commas or drop fields, so answers are extracted and
+// repaired before parsing and then checked against the shape the caller expects.
+
+export interface LLMValidation<T> {
+    value: T | null; // null = unusable, ask again
+    problems: string[]; // Shown to the model in the corrective prompt
+}
+
+// First balanced {...} or [...] in the text, ignoring brackets inside strings.
+// A truncated answer gets its open strings and brackets closed.
+const extractJSONText = (text: string): string | null => {
+    const start = text.search(/[{[]/);
+    if (start === -1) return null;
+    const closers: string[] = [];
+    let inString = false;
+    for (let i = start; i < text.length; i++) {
+        const c = text[i];
+        if (inString) {
+            if (c === '\\') i++;
+            else if (c === '"') inString = false;
+        } else if (c === '"') {
+            inString = true;
+        } else if (c === '{' || c === '[') {
+            closers.push(c === '{' ? '}' : ']');
+        } else if (c === '}' || c === ']') {
+            closers.pop();
+            if (closers.length === 0) return text.slice(start, i + 1);
+        }
+    }
+    return text.slice(start) + (inString ? '"' : '') + closers.reverse().join('');
+};
+
+// The usual mistakes: curly quotes, single-quoted strings, unquoted keys, trailing commas.
+// Only used when the text does not parse as it is, since the rewrites can touch string contents.
+const repairJSON = (text: string): string => {
+    return text
+        .replace(/[“”]/g, '"')
+        .replace(/'((?:[^'\\\n]|\\.)*)'(?=\s*[:,}\]])/g, (_, inner: string) => JSON.stringify(inner.replace(/\\'/g, "'")))
+        .replace(/([{,]\s*)([A-Za-z_]\w*)(\s*:)/g, '$1"$2"$3')
+        .replace(/,(\s*[}\]])/g, '$1');
+};
+
+export const parseLLMJSON = (text: string): unknown => {
+    const candidate = extractJSONText(text);
+    if (candidate === null) throw new Error('No JSON object in the answer');
+    try {
+        return JSON.parse(candidate);
+    } catch {
+        try {
+            return JSON.parse(repairJSON(candidate));
+        } catch (e: any) {
+            throw new Error(`Malformed JSON (${e?.message || 'parse error'})`);
+        }
+    }
+};
+
+// Sends prompt through ask and validates the answer. An unusable answer is sent back once
+// together with what was wrong with it; a second failure throws with those problems.
+export const requestValidatedJSON = async <T>(
+    prompt: string,
+    ask: (prompt: string) => Promise<string>,
+    validate: (value: unknown) => LLMValidation<T>
+): Promise<T> => {
+    let currentPrompt = prompt;
+    let problems: string[] = [];
+    for (let attempt = 0; attempt < 2; attempt++) {
+        const answer = await ask(currentPrompt);
+        try {
+            const result = validate(parseLLMJSON(answer));
+            if (result.value !== null) return result.value;
+            problems = result.problems;
+        } catch (e: any) {
+            problems = [e?.message || 'Unreadable answer'];
+        }
+        console.warn(`[LLM JSON] Unusable answer (attempt ${attempt + 1}): ${problems.join('; ')}`);
+        currentPrompt = `${prompt}
+
+Your previous answer could not be used: ${problems.join('; ')}.
+Previous answer:
+${answer.slice(0, 1000)}
+
+Answer again with the corrected JSON object only, no markdown or explanations.`;
+    }
+    throw new Error(`Unusable answer: ${problems.join('; ')}`);
+};
+
+// Alternative keys models use for the WordDefinition fields
+const DEFINITION_ALIASES: Record<keyof WordDefinition, string[]> = {
+    word: ['word', 'term', 'headword'],
+    phonetic: ['phonetic', 'ipa', 'pronunciation', 'phonetics'],
+    partOfSpeech: ['partOfSpeech', 'part_of_speech', 'pos', 'wordClass'],
+    meaning: ['meaning', 'definition', 'sense', 'explanation'],
+    usage: ['usage', 'usageInContext', 'context_usage'],
+    example: ['example', 'exampleSentence', 'example_sentence', 'examples'],
+};
+
+const toText = (value: unknown): string => {
+    if (typeof value === 'string') return value.trim();
+    if (typeof value === 'number') return String(value);
+    if (Array.isArray(value)) return value.map(toText).filter(Boolean).join('; ');
+    return '';
+};
+
+// Checks an answer against the WordDefinition shape. Only a missing meaning makes it
+// unusable; other missing fields are filled with safe defaults.
+export const validateWordDefinition = (value: unknown, word: string): LLMValidation<WordDefinition> => {
+    // Unwrap [{...}] and {"definition": {...}}
+    let data: any = Array.isArray(value) ? value[0] : value;
+    if (data && typeof data === 'object') {
+        const nested = Object.values(data).find(v => v && typeof v === 'object' && !Array.isArray(v) && ('meaning' in v || 'definition' in v));
+        if (nested && !DEFINITION_ALIASES.meaning.some(k => typeof data[k] === 'string')) data = nested;
+    }
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        return { value: null, problems: ['Expected a JSON object'] };
+    }
+
+    const field = (name: keyof WordDefinition) => {
+        for (const key of DEFINITION_ALIASES[name]) {
+            const text = toText(data[key]);
+            if (text) return text;
+        }
+        return '';
+    };
+
+    const meaning = field('meaning');
+    if (!meaning) return { value: null, problems: ['Missing "meaning" (string)'] };
+    return {
+        value: {
+            word: field('word') || word,
+            phonetic: field('phonetic'),
+            partOfSpeech: field('partOfSpeech'),
+            meaning,
+            usage: field('usage'),
+            example: field('example'),
+        },
+        problems: []
+    };
+};
@@ -0,0 +1,36 @@
+// User-editable prompt templates. Only the instructions are editable: the JSON contract the
+// parsers depend on is always appended by the caller, so a custom template cannot break it.
+
+export interface PromptPlaceholder {
+    name: string;
+    description: string;
+}
+
+export const TRANSCRIPTION_PLACEHOLDERS: PromptPlaceholder[] = [
+    { name: 'language', description: 'Spoken language (empty when auto-detecting)' },
+    { name: 'glossary', description: 'Terms to spell exactly, comma separated' },
+    { name: 'duration', description: 'Length of the audio chunk in seconds' },
+];
+
+export const DEFINITION_PLACEHOLDERS: PromptPlaceholder[] = [
+    { name: 'word', description: 'Selected word' },
+    { name: 'context', description: 'Subtitle line the word appears in' },
+];
+
+export const DEFAULT_TRANSCRIPTION_PROMPT = `The clip is {duration} seconds long.
+Include every spoken sentence. Do not summarize. Do not skip segments.
+Spell these names and terms exactly as written: {glossary}`;
+
+export const DEFAULT_DEFINITION_PROMPT = `Define the word "{word}" based on this context: "{context}".`;
+
+// Fills {name} placeholders. A line using a placeholder without a value is left out, so
+// optional sentences ("Spell these terms...: {glossary}") disappear when there is nothing to say.
+// Unknown placeholders are kept verbatim.
+export const renderPromptTemplate = (template: string, values: Record<string, string | undefined>): string => {
+    return template
+        .split('\n')
+        .filter(line => !Array.from(line.matchAll(/\{(\w+)\}/g)).some(m => m[1] in values && !values[m[1]]))
+        .map(line => line.replace(/\{(\w+)\}/g, (match, name: string) => name in values ? values[name]! : match))
+        .join('\n')
+        .trim();
+};
@@ -0,0 +1,142 @@
+import { FilteredSegment, SegmentFilterRule, SegmentFilterSettings, SubtitleSegment } from '../types';
+
+// Shared post-filter for ASR output of every engine. Whisper in particular hallucinates
+// stock phrases on silence and gets stuck in decoding loops; instead of silently
+// discarding such lines, everything removed is returned for review.
+
+export const DEFAULT_FILTER_RULES: SegmentFilterRule[] = [
+    { id: 'you', type: 'phrase', pattern: 'you', enabled: true },
+    { id: 'thank-you', type: 'phrase', pattern: 'thank you', enabled: true },
+    { id: 'thanks-for-watching', type: 'phrase', pattern: 'thanks for watching', enabled: true },
+    { id: 'subtitles-by', type: 'regex', pattern: 'subtitles? by', enabled: true },
+];
+
+export const DEFAULT_FILTER_SETTINGS: SegmentFilterSettings = {
+    enabled: true,
+    rules: DEFAULT_FILTER_RULES,
+    collapseRepetitions: true,
+    maxRepetitions: 3,
+    noSpeechThreshold: 0.6
+};
+
+// Longest repeated phrase (in words) the loop detector looks for
+const MAX_NGRAM = 6;
+
+// Lowercase, no punctuation: "Thank you." and "thank you" are the same phrase
+const normalize = (text: string): string => {
+    return text.toLowerCase().replace(/[^\p{L}\p{N}\s']/gu, '').replace(/\s+/g, ' ').trim();
+};
+
+// Returns a RegExp for valid patterns and null for invalid ones, so the settings UI can flag them
+export const compileFilterRule = (rule: SegmentFilterRule): RegExp | null => {
+    if (rule.type === 'phrase') return null;
+    try {
+        return new RegExp(rule.pattern, 'i');
+    } catch {
+        return null;
+    }
+};
+
+const matchRule = (rule: SegmentFilterRule, regex: RegExp | null, text: string, normalized: string): boolean => {
+    if (!rule.enabled || !rule.pattern.trim()) return false;
+    if (rule.type === 'phrase') return normalized === normalize(rule.pattern);
+    return !!regex && regex.test(text);
+};
+
+// Indices of the words to keep after collapsing any n-gram repeated more than maxRepetitions
+// times in a row down to a single occurrence
+const collapseLoops = (words: string[], maxRepetitions: number): number[] => {
+    let kept = words.map((_, i) => i);
+    for (let n = 1; n <= MAX_NGRAM; n++) {
+        const keys = kept.map(i => normalize(words[i]));
+        const next: number[] = [];
+        let i = 0;
+        while (i < kept.length) {
+            let repeats = 1;
+            const same = (a: number, b: number) => {
+                for (let k = 0; k < n; k++) if (keys[a + k] !== keys[b + k]) return false;
+                return true;
+            };
+            while (i + (repeats + 1) * n <= kept.length && same(i, i + repeats * n)) repeats++;
+
+            if (repeats > maxRepetitions) {
+                next.push(...kept.slice(i, i + n));
+                i += repeats * n;
+            } else {
+                next.push(kept[i]);
+                i++;
+            }
+        }
+        kept = next;
+    }
+    return kept;
+};
+
+export const applySegmentFilters = (
+    segments: SubtitleSegment[],
+    settings: SegmentFilterSettings
+): { kept: SubtitleSegment[]; filtered: FilteredSegment[] } => {
+    if (!settings.enabled) return { kept: segments, filtered: [] };
+
+    const rules = settings.rules.map(rule => ({ rule, regex: compileFilterRule(rule) }));
+    const kept: SubtitleSegment[] = [];
+    const filtered: FilteredSegment[] = [];
+    const drop = (segment: SubtitleSegment, reason: string) => filtered.push({ segment, reason, collapsed: false });
+
+    for (const segment of segments) {
+        const text = segment.text.trim();
+        const normalized = normalize(text);
+
+        if (!normalized) {
+            drop(segment, 'No words');
+            continue;
+        }
+        // Tiny duration with long text is suspicious
+        if (segment.end - segment.start < 0.1 && normalized.length > 5) {
+            drop(segment, 'Implausible timing');
+            continue;
+        }
+        const noSpeech = segment.confidence?.noSpeechProb;
+        const avgLogprob = segment.confidence?.avgLogprob;
+        // Same rule Whisper uses: likely silence unless the decoder was confident anyway
+        if (noSpeech !== undefined && noSpeech > settings.noSpeechThreshold && (avgLogprob === undefined || avgLogprob < -1)) {
+            drop(segment, `No speech (${Math.round(noSpeech * 100)}%)`);
+            continue;
+        }
+        const matched = rules.find(r => matchRule(r.rule, r.regex, text, normalized));
+        if (matched) {
+            drop(segment, `${matched.rule.type === 'phrase' ? 'Phrase' : 'Pattern'}: ${matched.rule.pattern}`);
+            continue;
+        }
+
+        if (settings.collapseRepetitions) {
+            const words = text.split(/\s+/);
+            const keptIndices = collapseLoops(words, Math.max(1, settings.maxRepetitions));
+            if (keptIndices.length < words.length) {
+                const collapsed: SubtitleSegment = { ...segment, text: keptIndices.map(i => words[i]).join(' ') };
+                // Word timings can follow only if they line up one-to-one with the text
+                if (segment.words) {
+                    if (segment.words.length === words.length) collapsed.words = keptIndices.map(i => segment.words![i]);
+                    else delete collapsed.words;
+                }
+                filtered.push({ segment, reason: `Repetition loop (${words.length - keptIndices.length} words removed)`, collapsed: true });
+                kept.push(collapsed);
+                continue;
+            }
+        }
+
+        kept.push(segment);
+    }
+
+    return { kept, filtered };
+};
+
+// Puts a filtered segment back: dropped lines are re-inserted, collapsed ones replace
+// their shortened version. The caller re-sorts and re-indexes.
+export const restoreFilteredSegment = (segments: SubtitleSegment[], entry: FilteredSegment): SubtitleSegment[] => {
+    if (entry.collapsed) {
+        const index = segments.findIndex(s => s.start === entry.segment.start && s.end === entry.segment.end);
+        if (index !== -1) return segments.map((s, i) => i === index ? entry.segment : s);
+    }
+    return [...segments, entry.segment];
+};
@@ -0,0 +1,133 @@
+import { ResegmentSettings, SubtitleSegment, SubtitleWord } from '../types';
+import { reindexSegments } from './subtitleEditing';
+import { mergeConfidence } from './confidence';
+
+// Rebuilds a transcript so that each segment holds one sentence, which is what sentence
+// loop and prev/next navigation assume. ASR engines cut on audio windows instead, so a
+// segment often ends mid-sentence or carries several sentences.
+
+export const DEFAULT_RESEGMENT_SETTINGS: ResegmentSettings = {
+    maxDuration: 8,
+    maxChars: 120,
+    pauseThreshold: 1.0
+};
+
+export interface WordToken {
+    text: string;
+    start: number;
+    end: number;
+    timed: boolean;  // Real word timing from the engine (false = interpolated)
+    source: number;  // Index of the segment the word came from
+}
+
+const SENTENCE_END = /[.?!…。？！]["'”’)\]]*$/;
+const CLAUSE_END = /[,;:，；：—-]["'”’)\]]*$/;
+// Words whose trailing period does not end a sentence
+const ABBREVIATIONS = new Set(['mr.', 'mrs.', 'ms.', 'dr.', 'prof.', 'st.', 'vs.', 'e.g.', 'i.e.', 'no.', 'jr.', 'sr.']);
+
+const endsSentence = (word: string): boolean => {
+    if (!SENTENCE_END.test(word)) return false;
+    const lower = word.toLowerCase();
+    if (ABBREVIATIONS.has(lower)) return false;
+    // Single initials ("J.") and numbers ("3.") are rarely sentence ends inside a transcript
+    return !/^([a-z]|\d+)\.$/i.test(word);
+};
+
+// Flattens segments into words. Segments without word timings get timings interpolated
+// from character counts across the segment's span.
+export const toWordTokens = (segments: SubtitleSegment[]): WordToken[] => {
+    const tokens: WordToken[] = [];
+    segments.forEach((segment, source) => {
+        if (segment.words && segment.words.length > 0) {
+            for (const w of segment.words) {
+                const text = w.text.trim();
+                if (text) tokens.push({ text, start: w.start, end: w.end, timed: true, source });
+            }
+            return;
+        }
+
+        const words = segment.text.split(/\s+/).filter(Boolean);
+        const totalWeight = words.reduce((sum, w) => sum + w.length + 1, 0);
+        const duration = segment.end - segment.start;
+        let cursor = segment.start;
+        for (const text of words) {
+            const length = duration * ((text.length + 1) / totalWeight);
+            tokens.push({ text, start: cursor, end: cursor + length, timed: false, source });
+            cursor += length;
+        }
+    });
+    return tokens;
+};
+
+const joinText = (tokens: WordToken[]) => tokens.map(t => t.text).join(' ');
+
+export const resegmentSentences = (
+    segments: SubtitleSegment[],
+    settings: ResegmentSettings = DEFAULT_RESEGMENT_SETTINGS
+): SubtitleSegment[] => {
+    const sorted = [...segments].sort((a, b) => a.start - b.start);
+    const tokens = toWordTokens(sorted);
+    const groups: WordToken[][] = [];
+    let current: WordToken[] = [];
+
+    const flush = () => {
+        if (current.length > 0) groups.push(current);
+        current = [];
+    };
+
+    // Emits the head of an over-long group, cutting after the last clause boundary if there is one
+    const splitOverlong = () => {
+        let cut = -1;
+        for (let i = current.length - 1; i >= 0; i--) {
+            if (CLAUSE_END.test(current[i].text)) { cut = i; break; }
+        }
+        if (cut === -1 || cut === current.length - 1) {
+            flush();
+        } else {
+            groups.push(current.slice(0, cut + 1));
+            current = current.slice(cut + 1);
+        }
+    };
+
+    for (const token of tokens) {
+        const prev = current[current.length - 1];
+        if (prev && token.start - prev.end >= settings.pauseThreshold) flush();
+
+        while (current.length > 0 && (
+            token.end - current[0].start > settings.maxDuration ||
+            joinText(current).length + 1 + token.text.length > settings.maxChars
+        )) {
+            splitOverlong();
+        }
+
+        current.push(token);
+        if (endsSentence(token.text)) flush();
+    }
+    flush();
+
+    // Source segments that survive unchanged keep their translation
+    const sourceSizes = new Map<number, number>();
+    tokens.forEach(t => sourceSizes.set(t.source, (sourceSizes.get(t.source) || 0) + 1));
+
+    return reindexSegments(groups.map(group => {
+        const first = group[0];
+        const last = group[group.length - 1];
+        const segment: SubtitleSegment = {
+            id: 0,
+            start: first.start,
+            end: Math.max(last.end, first.start + 0.1),
+            text: joinText(group)
+        };
+        // Interpolated timings are only a guess; karaoke needs real ones
+        if (group.every(t => t.timed)) {
+            segment.words = group.map<SubtitleWord>(t => ({ start: t.start, end: t.end, text: t.text }));
+        }
+        const confidence = mergeConfidence(Array.from(new Set(group.map(t => t.source))).map(i => sorted[i].confidence));
+        if (confidence) segment.confidence = confidence;
+        const translation = sorted[first.source].translation;
+        if (translation && group.every(t => t.source === first.source) && sourceSizes.get(first.source) === group.length) {
+            segment.translation = translation;
+        }
+        return segment;
+    }));
+};
@@ -0,0 +1,221 @@
+import { SubtitleSegment, SubtitleWord } from '../types';
+import { mergeConfidence } from './confidence';
+
+// Pure transcript edits. Every function returns a new, sorted array whose ids equal
+// the array index, which is what navigation and sentence loop rely on.
+
+// Shortest segment an edit may produce (seconds)
+export const MIN_SEGMENT_DURATION = 0.1;
+
+export const reindexSegments = (segments: SubtitleSegment[]): SubtitleSegment[] => {
+    return [...segments]
+        .sort((a, b) => a.start - b.start)
+        .map((s, i) => ({ ...s, id: i }));
+};
+
+const joinWords = (words: SubtitleWord[]): string => words.map(w => w.text).join(' ').trim();
+
+// Word timings only survive a text edit if the words still spell the new text
+export const updateSegmentText = (segments: SubtitleSegment[], index: number, text: string): SubtitleSegment[] => {
+    const segment = segments[index];
+    const trimmed = text.replace(/\s+/g, ' ').trim();
+    if (!segment || !trimmed || trimmed === segment.text) return segments;
+
+    const updated: SubtitleSegment = { ...segment, text: trimmed };
+    if (updated.words && joinWords(updated.words) !== trimmed) delete updated.words;
+    return reindexSegments(segments.map((s, i) => i === index ? updated : s));
+};
+
+// Moves a character offset to the nearest word boundary so a split never cuts a word in half
+const snapToWordBoundary = (text: string, charIndex: number): number => {
+    const clamped = Math.max(0, Math.min(text.length, charIndex));
+    if (clamped === 0 || clamped === text.length || text[clamped] === ' ' || text[clamped - 1] === ' ') return clamped;
+    const before = text.lastIndexOf(' ', clamped);
+    const after = text.indexOf(' ', clamped);
+    if (before === -1) return after === -1 ? clamped : after;
+    if (after === -1) return before;
+    return clamped - before <= after - clamped ? before : after;
+};
+
+// Splits a segment at a character offset in its text, or at a time inside it.
+// The missing half of (time, text position) comes from word timings when present,
+// otherwise it is interpolated from the character count.
+export const splitSegment = (
+    segments: SubtitleSegment[],
+    index: number,
+    at: { charIndex: number } | { time: number }
+): SubtitleSegment[] => {
+    const segment = segments[index];
+    if (!segment) return segments;
+    const duration = segment.end - segment.start;
+    const words = segment.words && segment.words.length > 1 ? segment.words : null;
+
+    let headText: string;
+    let tailText: string;
+    let splitTime: number;
+    let headWords: SubtitleWord[] | undefined;
+    let tailWords: SubtitleWord[] | undefined;
+
+    if (words) {
+        // Split on whole words: the first word that starts after the split point goes to the tail
+        let wordIndex: number;
+        if ('time' in at) {
+            wordIndex = words.findIndex(w => (w.start + w.end) / 2 >= at.time);
+        } else {
+            const headLength = segment.text.slice(0, snapToWordBoundary(segment.text, at.charIndex)).trim().split(/\s+/).filter(Boolean).length;
+            wordIndex = headLength;
+        }
+        if (wordIndex <= 0 || wordIndex >= words.length) return segments;
+        headWords = words.slice(0, wordIndex);
+        tailWords = words.slice(wordIndex);
+        headText = joinWords(headWords);
+        tailText = joinWords(tailWords);
+        splitTime = 'time' in at ? at.time : tailWords[0].start;
+    } else {
+        let charIndex: number;
+        if ('time' in at) {
+            const ratio = duration > 0 ? (at.time - segment.start) / duration : 0.5;
+            charIndex = snapToWordBoundary(segment.text, Math.round(segment.text.length * ratio));
+        } else {
+            charIndex = snapToWordBoundary(segment.text, at.charIndex);
+        }
+        headText = segment.text.slice(0, charIndex).trim();
+        tailText = segment.text.slice(charIndex).trim();
+        splitTime = 'time' in at
+            ? at.time
+            : segment.start + duration * (charIndex / Math.max(1, segment.text.length));
+    }
+
+    if (!headText || !tailText) return segments;
+    // Keep both halves at least MIN_SEGMENT_DURATION long
+    splitTime = Math.max(segment.start + MIN_SEGMENT_DURATION, Math.min(segment.end - MIN_SEGMENT_DURATION, splitTime));
+    if (splitTime <= segment.start || splitTime >= segment.end) return segments;
+
+    // A translation cannot be split reliably; keep it on the first half
+    const head: SubtitleSegment = { ...segment, end: splitTime, text: headText, words: headWords };
+    const tail: SubtitleSegment = { id: segment.id, start: splitTime, end: segment.end, text: tailText, words: tailWords, confidence: segment.confidence };
+    if (!head.words) delete head.words;
+    if (!tail.words) delete tail.words;
+    if (!tail.confidence) delete tail.confidence;
+
+    return reindexSegments([...segments.slice(0, index), head, tail, ...segments.slice(index + 1)]);
+};
+
+// Merges a segment with the one after it
+export const mergeWithNext = (segments: SubtitleSegment[], index: number): SubtitleSegment[] => {
+    const first = segments[index];
+    const second = segments[index + 1];
+    if (!first || !second) return segments;
+
+    const merged: SubtitleSegment = {
+        id: first.id,
+        start: Math.min(first.start, second.start),
+        end: Math.max(first.end, second.end),
+        text: `${first.text} ${second.text}`.trim()
+    };
+    // Only keep word timings if both halves had them, otherwise karaoke would skip half the line
+    if (first.words && second.words) merged.words = [...first.words, ...second.words];
+    const translation = [first.translation, second.translation].filter(Boolean).join(' ');
+    if (translation) merged.translation = translation;
+    const confidence = mergeConfidence([first.confidence, second.confidence]);
+    if (confidence) merged.confidence = confidence;
+
+    return reindexSegments([...segments.slice(0, index), merged, ...segments.slice(index + 2)]);
+};
+
+// Sets a segment's start and/or end. Times are clamped so the segment keeps a minimal duration.
+export const retimeSegment = (
+    segments: SubtitleSegment[],
+    index: number,
+    times: { start?: number; end?: number }
+): SubtitleSegment[] => {
+    const segment = segments[index];
+    if (!segment) return segments;
+
+    let start = Math.max(0, times.start ?? segment.start);
+    let end = times.end ?? segment.end;
+    if (times.start !== undefined) start = Math.min(start, end - MIN_SEGMENT_DURATION);
+    if (times.end !== undefined) end = Math.max(end, start + MIN_SEGMENT_DURATION);
+    if (start === segment.start && end === segment.end) return segments;
+
+    return reindexSegments(segments.map((s, i) => i === index ? { ...s, start, end } : s));
+};
+
+export const deleteSegment = (segments: SubtitleSegment[], index: number): SubtitleSegment[] => {
+    if (!segments[index]) return segments;
+    return reindexSegments(segments.filter((_, i) => i !== index));
+};
+
+// --- TIMING CORRECTION ---
+
+// Maps an original time t to t * scale + offset
+export interface LinearTimingCorrection {
+    scale: number;
+    offset: number;
+}
+
+// A line whose original start time should land on `target` (the moment it is actually spoken)
+export interface TimingAnchor {
+    original: number;
+    target: number;
+    text?: string; // The marked line, for display
+}
+
+// One anchor gives a constant offset; two anchors also correct drift (frame-rate mismatch)
+export const computeTimingCorrection = (anchors: TimingAnchor[]): LinearTimingCorrection | null => {
+    if (anchors.length === 0) return null;
+    if (anchors.length === 1) return { scale: 1, offset: anchors[0].target - anchors[0].original };
+
+    const [a, b] = [...anchors].sort((x, y) => x.original - y.original);
+    const span = b.original - a.original;
+    // Anchors too close together give a wildly unstable stretch
+    if (Math.abs(span) < 1) return null;
+    const scale = (b.target - a.target) / span;
+    if (!isFinite(scale) || scale <= 0) return null;
+    return { scale, offset: a.target - a.original * scale };
+};
+
+export const applyTimingCorrection = (segments: SubtitleSegment[], correction: LinearTimingCorrection): SubtitleSegment[] => {
+    const map = (t: number) => Math.max(0, t * correction.scale + correction.offset);
+    // Segments pushed before 0 collapse onto it; keep them playable instead of zero-length
+    return reindexSegments(segments.map(s => ({
+        ...s,
+        start: map(s.start),
+        end: Math.max(map(s.end), map(s.start) + MIN_SEGMENT_DURATION),
+        ...(s.words ? { words: s.words.map(w => ({ ...w, start: map(w.start), end: map(w.end) })) } : {})
+    })));
+};
+
+export const shiftSegments = (segments: SubtitleSegment[], offset: number): SubtitleSegment[] => {
+    if (offset === 0) return segments;
+    return applyTimingCorrection(segments, { scale: 1, offset });
+};
+
+// --- RANGE REPLACEMENT ---
+
+// Replaces segments firstIndex..lastIndex (inclusive) with new ones, e.g. from re-transcribing
+// that span. Replacements are clipped to the span so neighbouring lines stay untouched.
+export const replaceSegmentRange = (
+    segments: SubtitleSegment[],
+    firstIndex: number,
+    lastIndex: number,
+    replacement: SubtitleSegment[]
+): SubtitleSegment[] => {
+    const first = segments[firstIndex];
+    const last = segments[lastIndex];
+    if (!first || !last || lastIndex < firstIndex) return segments;
+
+    const spanStart = first.start;
+    const spanEnd = Math.max(...segments.slice(firstIndex, lastIndex + 1).map(s => s.end));
+
+    const clipped = replacement
+        .map(s => ({
+            ...s,
+            start: Math.max(spanStart, s.start),
+            end: Math.min(spanEnd, s.end),
+            ...(s.words ? { words: s.words.filter(w => w.end > spanStart && w.start < spanEnd) } : {})
+        }))
+        .filter(s => s.text.trim() && s.end - s.start >= MIN_SEGMENT_DURATION);
+
+    return reindexSegments([...segments.slice(0, firstIndex), ...clipped, ...segments.slice(lastIndex + 1)]);
+};
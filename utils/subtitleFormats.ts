@@ -0,0 +1,271 @@
+import { SubtitleSegment } from '../types';
+
+export type SubtitleExportFormat = 'srt' | 'vtt' | 'json';
+export type SubtitleImportFormat = 'srt' | 'vtt' | 'ass' | 'json';
+
+// Version tag for the lossless JSON format. Bump when the envelope changes shape.
+const JSON_FORMAT_VERSION = 1;
+
+// Helper to safely parse potentially weird timestamp formats (ASR responses and subtitle files)
+export function parseTimestamp(val: any): number {
+    if (typeof val === 'number') return val;
+    if (typeof val === 'string') {
+        const v = val.trim();
+        if (!v) return 0;
+
+        // Normalize comma decimals (VTT/SRT style: 00:00:10,500)
+        const normalized = v.replace(',', '.');
+
+        // Check for colon format (HH:MM:SS or MM:SS)
+        if (normalized.includes(':')) {
+            const parts = normalized.split(':');
+            let seconds = 0;
+            if (parts.length === 3) {
+                // HH:MM:SS
+                seconds = parseFloat(parts[0]) * 3600 + parseFloat(parts[1]) * 60 + parseFloat(parts[2]);
+            } else if (parts.length === 2) {
+                // MM:SS
+                seconds = parseFloat(parts[0]) * 60 + parseFloat(parts[1]);
+            } else {
+                 seconds = parseFloat(parts[parts.length - 1]);
+            }
+            return isNaN(seconds) ? 0 : seconds;
+        }
+
+        // Standard float string
+        const num = parseFloat(normalized);
+        return isNaN(num) ? 0 : num;
+    }
+    return 0;
+}
+
+// Deterministic, calculation-based method to determine the timestamp units of an ASR response.
+export function detectTimeScale(segments: any[], chunkDuration: number): number {
+    const parsed = segments.map(s => {
+        const start = parseTimestamp(s.start);
+        const end = parseTimestamp(s.end);
+        return { start, end, dur: end - start };
+    }).filter(s => s.end > s.start && s.dur > 0);
+
+    if (parsed.length === 0) return 1.0;
+    const avgDur = parsed.reduce((sum, s) => sum + s.dur, 0) / parsed.length;
+    const maxEnd = Math.max(...parsed.map(s => s.end));
+    const candidates = [1.0, 0.01, 0.001];
+
+    const validCandidates = candidates.filter(scale => {
+        const scaledAvg = avgDur * scale;
+        const scaledMax = maxEnd * scale;
+        // Relaxed constraints to catch edge cases
+        const isDurationReasonable = scaledAvg >= 0.1 && scaledAvg <= 60.0;
+        const fitsInChunk = scaledMax <= (chunkDuration * 1.5);
+        return isDurationReasonable && fitsInChunk;
+    });
+
+    if (validCandidates.length === 1) return validCandidates[0];
+    
+    // If multiple candidates, we sort by which one results in an average duration closest to 3.0s.
+    // KEY FIX: Use logarithmic difference instead of linear difference.
+    // This prevents long sentences (e.g. 6s) from being rejected in favor of tiny ones (0.6s)
+    // just because 0.6 is linearly closer to 3.0 than 6.0 is.
+    // In log scale: 3.0/0.6 = 5x diff. 6.0/3.0 = 2x diff. So 6.0 wins (correctly).
+    if (validCandidates.length > 1) {
+        return validCandidates.sort((a, b) => {
+            const valA = avgDur * a;
+            const valB = avgDur * b;
+            
+            // Prevent log(0)
+            const logA = Math.log(Math.max(0.0001, valA));
+            const logB = Math.log(Math.max(0.0001, valB));
+            const target = Math.log(3.0);
+            
+            const distA = Math.abs(logA - target);
+            const distB = Math.abs(logB - target);
+            
+            return distA - distB;
+        })[0];
+    }
+
+    // Fallback: Fits best in chunk duration
+    return candidates.sort((a, b) => {
+         const distA = Math.abs((maxEnd * a) - chunkDuration);
+         const distB = Math.abs((maxEnd * b) - chunkDuration);
+         return distA - distB;
+    })[0];
+}
+
+// Formats seconds as HH:MM:SS<sep>mmm. Works in integer milliseconds to avoid
+// float drift (e.g. 1.001 * 1000 = 1000.9999999999999).
+const formatTimestamp = (seconds: number, separator: ',' | '.'): string => {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    const ms = totalMs % 1000;
+    const totalSec = Math.floor(totalMs / 1000);
+    const s = totalSec % 60;
+    const m = Math.floor(totalSec / 60) % 60;
+    const h = Math.floor(totalSec / 3600);
+    return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}${separator}${ms.toString().padStart(3, '0')}`;
+};
+
+export const toSRT = (segments: SubtitleSegment[]): string => {
+    return segments.map((s, i) =>
+        `${i + 1}\n${formatTimestamp(s.start, ',')} --> ${formatTimestamp(s.end, ',')}\n${s.text}\n`
+    ).join('\n');
+};
+
+export const toVTT = (segments: SubtitleSegment[]): string => {
+    const cues = segments.map(s =>
+        `${formatTimestamp(s.start, '.')} --> ${formatTimestamp(s.end, '.')}\n${s.text}\n`
+    ).join('\n');
+    return `WEBVTT\n\n${cues}`;
+};
+
+// Lossless: keeps every field of every segment so a re-import restores the exact track.
+export const toJSON = (segments: SubtitleSegment[]): string => {
+    return JSON.stringify({ version: JSON_FORMAT_VERSION, segments }, null, 2);
+};
+
+export const serializeSubtitles = (segments: SubtitleSegment[], format: SubtitleExportFormat): string => {
+    if (format === 'srt') return toSRT(segments);
+    if (format === 'vtt') return toVTT(segments);
+    return toJSON(segments);
+};
+
+const MIME_TYPES: Record<SubtitleExportFormat, string> = {
+    srt: 'application/x-subrip',
+    vtt: 'text/vtt',
+    json: 'application/json'
+};
+
+// Triggers a browser download of the serialized track
+export const downloadSubtitles = (segments: SubtitleSegment[], format: SubtitleExportFormat, baseName: string) => {
+    const content = serializeSubtitles(segments, format);
+    const blob = new Blob([content], { type: `${MIME_TYPES[format]};charset=utf-8` });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${baseName}.${format}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// --- IMPORT ---
+
+// Removes HTML-ish style tags (<i>, <font ...>, <c.yellow>, <v Speaker>, <00:00:01.000>)
+// and ASS override blocks ({\an8}, {\i1}) that SRT/VTT files frequently carry.
+const stripStyleTags = (text: string): string => {
+    return text
+        .replace(/<[^>]*>/g, '')
+        .replace(/\{\\[^}]*\}/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>');
+};
+
+// Multi-line cues are joined into one line; the transcript and overlay split on spaces.
+const joinCueLines = (lines: string[]): string => {
+    return lines.map(l => stripStyleTags(l).trim()).filter(l => l.length > 0).join(' ').replace(/\s+/g, ' ').trim();
+};
+
+// Shared by SRT and WebVTT: both are blank-line separated blocks with a "start --> end" line.
+const parseCueBlocks = (content: string): SubtitleSegment[] => {
+    const blocks = content.replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+    const segments: SubtitleSegment[] = [];
+
+    for (const block of blocks) {
+        const lines = block.split('\n');
+        const timingIndex = lines.findIndex(l => l.includes('-->'));
+        if (timingIndex === -1) continue; // Header, NOTE, STYLE or REGION block
+
+        const [startRaw, endRaw] = lines[timingIndex].split('-->');
+        // VTT cue settings follow the end time (e.g. "00:01.000 align:start")
+        const start = parseTimestamp(startRaw);
+        const end = parseTimestamp(endRaw.trim().split(/\s+/)[0]);
+        const text = joinCueLines(lines.slice(timingIndex + 1));
+
+        if (text && end > start) {
+            segments.push({ id: 0, start, end, text });
+        }
+    }
+    return segments;
+};
+
+export const parseSRT = (content: string): SubtitleSegment[] => parseCueBlocks(content);
+
+export const parseVTT = (content: string): SubtitleSegment[] => parseCueBlocks(content.replace(/^\uFEFF?WEBVTT[^\n]*/, ''));
+
+export const parseASS = (content: string): SubtitleSegment[] => {
+    const lines = content.replace(/\r\n?/g, '\n').split('\n');
+    const segments: SubtitleSegment[] = [];
+    // Default v4+ field order, overridden by the [Events] "Format:" line when present
+    let fields = ['layer', 'start', 'end', 'style', 'name', 'marginl', 'marginr', 'marginv', 'effect', 'text'];
+    let inEvents = false;
+
+    for (const rawLine of lines) {
+        const line = rawLine.trim();
+        if (line.startsWith('[')) {
+            inEvents = line.toLowerCase() === '[events]';
+            continue;
+        }
+        if (!inEvents) continue;
+
+        if (line.toLowerCase().startsWith('format:')) {
+            fields = line.slice(7).split(',').map(f => f.trim().toLowerCase());
+            continue;
+        }
+        if (!line.toLowerCase().startsWith('dialogue:')) continue;
+
+        // Text is always the last field and may itself contain commas
+        const values = line.slice(9).split(',');
+        const head = values.slice(0, fields.length - 1);
+        const textRaw = values.slice(fields.length - 1).join(',');
+        const get = (name: string) => head[fields.indexOf(name)];
+
+        const start = parseTimestamp(get('start'));
+        const end = parseTimestamp(get('end'));
+        const text = joinCueLines(textRaw.replace(/\\h/g, ' ').split(/\\N|\\n/));
+
+        if (text && end > start) {
+            segments.push({ id: 0, start, end, text });
+        }
+    }
+    return segments;
+};
+
+export const parseJSON = (content: string): SubtitleSegment[] => {
+    const data = JSON.parse(content);
+    const list: any[] = Array.isArray(data) ? data : (data.segments || []);
+    return list.map((s: any) => ({
+        ...s,
+        id: 0,
+        start: parseTimestamp(s.start),
+        end: parseTimestamp(s.end),
+        text: String(s.text ?? '').trim()
+    })).filter(s => s.text && s.end > s.start);
+};
+
+export const detectSubtitleFormat = (content: string, fileName?: string): SubtitleImportFormat => {
+    const ext = fileName?.split('.').pop()?.toLowerCase();
+    if (ext === 'srt' || ext === 'vtt' || ext === 'json') return ext;
+    if (ext === 'ass' || ext === 'ssa') return 'ass';
+
+    const head = content.trimStart().slice(0, 200);
+    if (head.replace(/^\uFEFF/, '').startsWith('WEBVTT')) return 'vtt';
+    if (head.includes('[Script Info]') || /^Dialogue:/m.test(content)) return 'ass';
+    if (head.startsWith('{') || head.startsWith('[')) return 'json';
+    return 'srt';
+};
+
+// Parses any supported subtitle file into a sorted, re-indexed SubtitleSegment[]
+export const parseSubtitles = (content: string, fileName?: string): SubtitleSegment[] => {
+    const format = detectSubtitleFormat(content, fileName);
+    let segments: SubtitleSegment[];
+    if (format === 'vtt') segments = parseVTT(content);
+    else if (format === 'ass') segments = parseASS(content);
+    else if (format === 'json') segments = parseJSON(content);
+    else segments = parseSRT(content);
+
+    segments.sort((a, b) => a.start - b.start);
+    return segments.map((s, i) => ({ ...s, id: i }));
+};
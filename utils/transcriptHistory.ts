@@ -0,0 +1,87 @@
+import { SubtitleSegment } from '../types';
+
+// Undo/redo for the transcript. Edits never mutate segment arrays in place, so a
+// snapshot is just a reference to the previous array and costs no copying.
+
+export type TranscriptChange = 'edit' | 'split' | 'merge' | 'shift' | 'delete' | 'resegment' | 'retranscribe' | 'retry' | 'restore' | 'import' | 'translate' | 'regenerate' | 'clear';
+
+export interface TranscriptSnapshot {
+    change: TranscriptChange; // The change that replaced this snapshot
+    segments: SubtitleSegment[];
+    at: number;
+}
+
+export interface TranscriptHistory {
+    past: TranscriptSnapshot[];   // Oldest first
+    future: TranscriptSnapshot[]; // Next redo first
+}
+
+// Enough to walk back over a long editing session
+export const MAX_HISTORY = 100;
+
+export const EMPTY_HISTORY: TranscriptHistory = { past: [], future: [] };
+
+const CHANGE_LABELS: Record<TranscriptChange, string> = {
+    edit: 'Edit text',
+    split: 'Split line',
+    merge: 'Merge lines',
+    shift: 'Retime',
+    delete: 'Delete line',
+    resegment: 'Re-segment',
+    retranscribe: 'Re-transcribe',
+    retry: 'Retry failed chunks',
+    restore: 'Restore line',
+    import: 'Import',
+    translate: 'Translate',
+    regenerate: 'Regenerate',
+    clear: 'Clear'
+};
+
+export const getChangeLabel = (change: TranscriptChange): string => CHANGE_LABELS[change];
+
+// Drops the oldest snapshot, but keeps the most recent regenerate / import / clear snapshot
+// so a transcript replaced by a new run stays recoverable after many small edits.
+const trimPast = (past: TranscriptSnapshot[]): TranscriptSnapshot[] => {
+    if (past.length <= MAX_HISTORY) return past;
+    const isWholeTrack = (s: TranscriptSnapshot) => s.change === 'regenerate' || s.change === 'import' || s.change === 'clear';
+    let protectedIndex = -1;
+    for (let i = past.length - 1; i >= 0; i--) {
+        if (isWholeTrack(past[i])) { protectedIndex = i; break; }
+    }
+    const dropIndex = protectedIndex === 0 ? 1 : 0;
+    return past.filter((_, i) => i !== dropIndex);
+};
+
+// Records the transcript as it was before `change`. Starting a new branch clears redo.
+export const recordChange = (history: TranscriptHistory, previous: SubtitleSegment[], change: TranscriptChange): TranscriptHistory => {
+    // An empty transcript is not worth restoring
+    if (previous.length === 0) return { ...history, future: [] };
+    return {
+        past: trimPast([...history.past, { change, segments: previous, at: Date.now() }]),
+        future: []
+    };
+};
+
+export const undoChange = (history: TranscriptHistory, current: SubtitleSegment[]): { history: TranscriptHistory; segments: SubtitleSegment[] } | null => {
+    const snapshot = history.past[history.past.length - 1];
+    if (!snapshot) return null;
+    return {
+        history: {
+            past: history.past.slice(0, -1),
+            future: [{ ...snapshot, segments: current, at: Date.now() }, ...history.future]
+        },
+        segments: snapshot.segments
+    };
+};
+
+export const redoChange = (history: TranscriptHistory, current: SubtitleSegment[]): { history: TranscriptHistory; segments: SubtitleSegment[] } | null => {
+    const snapshot = history.future[0];
+    if (!snapshot) return null;
+    return {
+        history: {
+            past: [...history.past, { ...snapshot, segments: current, at: Date.now() }],
+            future: history.future.slice(1)
+        },
+        segments: snapshot.segments
+    };
+};